@@ -4,30 +4,127 @@ import {
   AudioFile, 
   AnalysisConfig, 
   ChannelState, 
-  RefinementSettings, 
-  RawChannelData 
+  RefinementChain, 
+  RawChannelData,
+  FrequencyBand,
+  ProjectData,
+  LoopRegion,
+  AutomationSegment,
+  WindowAlignment,
+  NormalizationSettings,
+  SeparationMode
 } from './types';
-import { DEFAULT_CONFIG, DEFAULT_REFINEMENT, COLORS } from './constants';
-import { decodeAudioFile, analyzeAudioBuffer, refineChannel } from './services/dsp';
+import { DEFAULT_CONFIG, DEFAULT_NORMALIZATION, FPS_PRESETS, COLORS, REFINE_DEBOUNCE_MS, AUTOSAVE_DELAY_MS, DEFAULT_OUTPUT_RANGE } from './constants';
+import { decodeAudioFile, refineChannel } from './services/dsp';
+import { createWorkerPool, WorkerPool } from './services/workerPool';
+import { encodeProject, decodeProject, PROJECT_EXTENSION } from './services/project';
+import { saveLastSession, loadLastSession, clearLastSession } from './services/storage';
+import {
+  HistoryState,
+  ChannelPatch,
+  EMPTY_HISTORY,
+  recordEdit,
+  applyChanges,
+  snapshotPatch,
+  describeChainChange
+} from './services/history';
+import { detectTempo, TempoEstimate } from './services/tempo';
+import { createDefaultChain, chainInputs } from './services/processors';
+import { compileExpression, CompiledExpression } from './services/expression';
+import {
+  validateDerived,
+  derivedOrder,
+  resolveInputs,
+  channelDependencies,
+  sidechainDependencies
+} from './services/derived';
+import { topologicalOrder, downstreamOf } from './services/graph';
 import Timeline from './components/Timeline';
-import Controls from './components/Controls';
-import { Upload, Music, Settings, Download, Play, Pause, Activity, FileJson, FileCode } from 'lucide-react';
+import Controls, { ChannelOutputPatch } from './components/Controls';
+import BandEditor from './components/BandEditor';
+import NormalizationEditor from './components/NormalizationEditor';
+import HistoryPanel from './components/HistoryPanel';
+import TrackMixer, { TrackMix } from './components/TrackMixer';
+import ExportPanel from './components/ExportPanel';
+import StreamControls from './components/StreamControls';
+import DerivedChannelForm from './components/DerivedChannelForm';
+import { createAudioEngine, AudioEngine } from './services/playback';
+import { normalizeLevels } from './services/normalization';
+import { sectionsOf } from './services/structure';
+import { SEPARATION_MODES, splitSourceId } from './services/separation';
+import { stepTime, StepUnit, valueAtTime, frameAt, formatFps, normalizeFps, supportsDropFrame, sameFrameTiming } from './services/timecode';
+import { AeScriptOptions, DEFAULT_AE_OPTIONS } from './services/exporters/aeScript';
+import { downloadBlob } from './services/exporters/download';
+import { MidiLaneOptions } from './services/exporters/midi';
+import { BlenderScriptOptions, DEFAULT_BLENDER_OPTIONS } from './services/exporters/blender';
+import { runExport, copyExport, ExportContext, ExportFormat } from './services/exporters';
+import { createStreamClient, StreamClient, StreamStatus, DEFAULT_STREAM_URL, DEFAULT_STREAM_RATE } from './services/streaming';
+import { Upload, Music, Settings, Play, Pause, Activity, Wand2, Save, FolderOpen, RotateCcw } from 'lucide-react';
+
+// Keyboard shortcuts stay out of the way of text entry
+const isTypingTarget = (target: EventTarget | null) => {
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && target.type !== 'range' && target.type !== 'checkbox';
+};
+
+interface FileProgress {
+  stage: string;
+  fraction: number;
+}
 
 export default function App() {
   const [view, setView] = useState<'import' | 'analyze' | 'refine'>('import');
   const [files, setFiles] = useState<AudioFile[]>([]);
   const [config, setConfig] = useState<AnalysisConfig>(DEFAULT_CONFIG);
+  const configRef = useRef(config);
+  configRef.current = config;
+  // Config the raw channels were analyzed with; their frames follow its timing
+  const [analyzedConfig, setAnalyzedConfig] = useState<AnalysisConfig | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analyzeProgress, setAnalyzeProgress] = useState(0);
+  const [fileProgress, setFileProgress] = useState<Record<string, FileProgress>>({});
+  const poolRef = useRef<WorkerPool | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const refineTimersRef = useRef<Record<string, number>>({});
+  const [tempoEstimate, setTempoEstimate] = useState<TempoEstimate | null>(null);
+  const [isDetectingTempo, setIsDetectingTempo] = useState(false);
 
   // Refinement State
   const [rawChannels, setRawChannels] = useState<RawChannelData[]>([]);
+  const rawChannelsRef = useRef<RawChannelData[]>(rawChannels);
+  rawChannelsRef.current = rawChannels;
+  const [isAddingDerived, setIsAddingDerived] = useState(false);
+  const derivedCacheRef = useRef<Record<string, { inputs: ArrayLike<number>[]; expression: string; config: AnalysisConfig }>>({});
+  // Curve editor stage signals, per curve processor, with what they were computed from
+  const curveStageCacheRef = useRef<Record<string, { raw: Float32Array; prefix: RefinementChain; inputs: (Float32Array | undefined)[]; config: AnalysisConfig; values: Float32Array }>>({});
   const [channelStates, setChannelStates] = useState<ChannelState[]>([]);
   const [selectedChannelId, setSelectedChannelId] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
-  const [isPlaying, setIsPlaying] = useState(false); // Visualization play only, no audio
+  const [isPlaying, setIsPlaying] = useState(false);
   const playReqRef = useRef<number>(0);
-  const lastTimeRef = useRef<number>(0);
+  const currentTimeRef = useRef(0);
+  currentTimeRef.current = currentTime;
+  const engineRef = useRef<AudioEngine | null>(null);
+  const [trackMix, setTrackMix] = useState<Record<string, TrackMix>>({});
+  const [followSelection, setFollowSelection] = useState(false);
+  const [loop, setLoop] = useState<LoopRegion | null>(null);
+  const [aeOptions, setAeOptions] = useState<AeScriptOptions>(DEFAULT_AE_OPTIONS);
+  const [midiLanes, setMidiLanes] = useState<Record<string, MidiLaneOptions>>({});
+  const [blenderOptions, setBlenderOptions] = useState<BlenderScriptOptions>(DEFAULT_BLENDER_OPTIONS);
+  const streamRef = useRef<StreamClient | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('disconnected');
+  const [streamUrl, setStreamUrl] = useState(DEFAULT_STREAM_URL);
+  const [streamRate, setStreamRate] = useState(DEFAULT_STREAM_RATE);
+  const loopRef = useRef<LoopRegion | null>(null);
+  loopRef.current = loop;
+  const duration = useMemo(() => files.reduce((acc, f) => Math.max(acc, f.duration), 0), [files]);
+  const [lastSession, setLastSession] = useState<ProjectData | null>(null);
+
+  // Undo History
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+  const channelStatesRef = useRef<ChannelState[]>(channelStates);
+  channelStatesRef.current = channelStates;
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -41,78 +138,504 @@ export default function App() {
           type: files.length === 0 ? 'master' : 'stem',
           duration: 0,
           sampleRate: 0,
-          channels: 0
+          channels: 0,
+          bands: [],
+          normalization: DEFAULT_NORMALIZATION,
+          tonal: files.length === 0,
+          separation: 'off'
         });
       }
       setFiles([...files, ...newFiles]);
     }
   };
 
+  const updateBands = (id: string, bands: FrequencyBand[]) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, bands } : f));
+  };
+
+  const updateTonal = (id: string, tonal: boolean) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, tonal } : f));
+  };
+
+  const updateSeparation = (id: string, separation: SeparationMode) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, separation } : f));
+  };
+
+  // Re-normalizes an analyzed source from its stored measurements, no decoding
+  const updateNormalization = (id: string, normalization: NormalizationSettings) => {
+    const file = files.find(f => f.id === id);
+    if (!file) return;
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, normalization } : f));
+    // Stale frames get re-normalized by the next analysis instead
+    if (analyzedConfig && !sameFrameTiming(analyzedConfig, configRef.current)) return;
+
+    const sourceId = file.type === 'master' ? 'master' : file.id;
+    const changed: string[] = [];
+    // Separated parts follow their parent's strategy
+    const raws = rawChannelsRef.current.map(r => {
+      if (splitSourceId(r.sourceId).base !== sourceId || !r.measurements) return r;
+      changed.push(r.id);
+      return { ...r, values: normalizeLevels(r.measurements, normalization, configRef.current.fps, r.fixedGain) };
+    });
+    if (!changed.length) return;
+    rawChannelsRef.current = raws;
+    setRawChannels(raws);
+    refineChannels(changed, channelStatesRef.current, raws, configRef.current);
+  };
+
+  // Decodes once and caches the buffer on the file entry
+  const decodeFile = async (f: AudioFile): Promise<AudioBuffer> => {
+    if (f.buffer) return f.buffer;
+    if (!f.file) throw new Error(`No audio attached for ${f.name}`);
+    const buffer = await decodeAudioFile(f.file);
+    
+    f.duration = buffer.duration;
+    f.sampleRate = buffer.sampleRate;
+    f.channels = buffer.numberOfChannels;
+    f.buffer = buffer; 
+    return buffer;
+  };
+
+  const runTempoDetection = async () => {
+    const master = files.find(f => f.type === 'master');
+    if (!master || (!master.file && !master.buffer)) return;
+    setIsDetectingTempo(true);
+    try {
+      const buffer = await decodeFile(master);
+      const estimate = detectTempo(buffer, config.timeSignature);
+      setTempoEstimate(estimate);
+      setConfig(prev => ({ ...prev, bpm: estimate.bpm, beatOffset: estimate.beatOffset }));
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsDetectingTempo(false);
+    }
+  };
+
+  // Pre-fill BPM and downbeat the first time the Analyze view opens, but not
+  // when coming back to adjust an existing analysis
+  useEffect(() => {
+    if (view === 'analyze' && !tempoEstimate && !isDetectingTempo && rawChannels.length === 0) {
+      runTempoDetection();
+    }
+  }, [view]);
+
+  // Lazily spawned DSP workers, shared by analysis and refinement
+  const getPool = () => {
+    if (!poolRef.current) poolRef.current = createWorkerPool();
+    return poolRef.current;
+  };
+
+  useEffect(() => () => poolRef.current?.terminate(), []);
+
   const startAnalysis = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsAnalyzing(true);
     setAnalyzeProgress(0);
-    const results: RawChannelData[] = [];
+
+    const progress: Record<string, FileProgress> = {};
+    const report = (id: string, stage: string, fraction: number) => {
+      progress[id] = { stage, fraction };
+      setFileProgress({ ...progress });
+      const total = files.reduce((acc, f) => acc + (progress[f.id]?.fraction ?? 0), 0);
+      setAnalyzeProgress((total / files.length) * 100);
+    };
+    files.forEach(f => report(f.id, 'Waiting', 0));
     
     try {
-      for (let i = 0; i < files.length; i++) {
-        setAnalyzeProgress(((i) / files.length) * 50);
-        const f = files[i];
-        const buffer = await decodeAudioFile(f.file);
-        
-        f.duration = buffer.duration;
-        f.sampleRate = buffer.sampleRate;
-        f.channels = buffer.numberOfChannels;
-        f.buffer = buffer; 
-        
-        setAnalyzeProgress(((i + 0.5) / files.length) * 100);
-        const channels = await analyzeAudioBuffer(buffer, config, f.type === 'master' ? 'master' : f.id, f.name.replace('.wav', ''));
-        results.push(...channels);
+      const pool = getPool();
+      const tasks: Promise<RawChannelData[]>[] = [];
+
+      // Decode on the main thread (Web Audio only lives here), analyze in workers
+      for (const f of files) {
+        report(f.id, 'Decoding', 0);
+        const buffer = await decodeFile(f);
+        if (controller.signal.aborted) break;
+
+        const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice());
+        report(f.id, 'Queued', 0.2);
+        tasks.push(pool.run({
+          kind: 'analyze',
+          channels,
+          sampleRate: buffer.sampleRate,
+          config,
+          sourceId: f.type === 'master' ? 'master' : f.id,
+          sourceName: f.name.replace('.wav', ''),
+          bands: f.bands,
+          normalization: f.normalization,
+          tonal: f.tonal,
+          separation: f.separation
+        }, {
+          transfer: channels.map(c => c.buffer),
+          signal: controller.signal,
+          onProgress: (stage, fraction) => report(f.id, stage, 0.2 + fraction * 0.8)
+        }));
       }
+
+      const results = (await Promise.all(tasks)).flat();
+      if (controller.signal.aborted) return;
       
       setRawChannels(results);
+      setAnalyzedConfig(config);
       
       const initialStates: ChannelState[] = results.map((raw, idx) => ({
         id: raw.id,
-        settings: { ...DEFAULT_REFINEMENT },
+        settings: createDefaultChain(),
         processedValues: raw.values,
         visible: true,
         mute: false,
         solo: false,
-        color: COLORS[idx % COLORS.length]
+        color: COLORS[idx % COLORS.length],
+        label: raw.id,
+        ...DEFAULT_OUTPUT_RANGE,
+        automation: []
       }));
       setChannelStates(initialStates);
       setSelectedChannelId(results[0]?.id);
+      resetHistory();
       
       setAnalyzeProgress(100);
       setTimeout(() => setView('refine'), 500);
     } catch (err) {
-      console.error(err);
-      alert("Error analyzing audio. Check console.");
+      if (!controller.signal.aborted) {
+        console.error(err);
+        alert("Error analyzing audio. Check console.");
+      }
     } finally {
+      abortRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
-  const updateRefinement = useCallback((id: string, settings: RefinementSettings) => {
-    setChannelStates(prev => prev.map(ch => {
-      if (ch.id === id) {
-        const raw = rawChannels.find(r => r.id === id);
-        if (!raw) return ch;
-        const processed = refineChannel(raw.values, settings, config.bpm, config.fps);
-        return { ...ch, settings, processedValues: processed };
-      }
-      return ch;
+  const cancelAnalysis = () => {
+    abortRef.current?.abort();
+    setFileProgress({});
+    setAnalyzeProgress(0);
+  };
+
+  // Refines the given channels plus every chain that sidechains from them, in
+  // dependency order as one worker batch. Results for chains that have since
+  // changed, or that read a sidechain another batch has replaced, are dropped.
+  const refineChannels = async (ids: string[], states: ChannelState[], raws: RawChannelData[], cfg: AnalysisConfig) => {
+    let order: string[];
+    try {
+      order = topologicalOrder(channelDependencies(raws, states));
+    } catch (err) {
+      console.error(err);
+      return;
+    }
+    const affected = downstreamOf(ids, sidechainDependencies(states));
+    const jobs = order.flatMap(id => {
+      const state = states.find(st => st.id === id);
+      const raw = raws.find(r => r.id === id);
+      return affected.has(id) && state && raw ? [{ id, raw: raw.values, chain: state.settings, automation: state.automation }] : [];
+    });
+    if (!jobs.length) return;
+
+    const inputs: Record<string, Float32Array> = {};
+    jobs.forEach(job => chainInputs(job.chain).forEach(key => {
+      const source = states.find(st => st.id === key);
+      if (source && !affected.has(key)) inputs[key] = source.processedValues;
     }));
-  }, [rawChannels, config]);
 
-  const toggleChannelState = (id: string, key: 'visible' | 'mute' | 'solo') => {
-    setChannelStates(prev => {
-        // Handle Exclusive Solo Logic? Or additive? Additive is more DAW-like usually.
-        // Let's keep it simple.
-        return prev.map(ch => ch.id === id ? { ...ch, [key]: !ch[key] } : ch);
+    try {
+      const result = await getPool().run({ kind: 'refine', jobs, inputs, bpm: cfg.bpm, fps: cfg.fps, beatOffset: cfg.beatOffset });
+      const refined = new Map(jobs.map(job => [job.id, job]));
+      const current = channelStatesRef.current;
+      const matches = (ch: ChannelState) => {
+        const job = refined.get(ch.id);
+        return !!result[ch.id] && job?.chain === ch.settings && job.automation === ch.automation;
+      };
+
+      // Batches run in parallel, so another may have replaced a sidechain input
+      // taken from outside this one; such results (and in-batch jobs fed by
+      // them) are stale and get refined again
+      const accepted = new Set<string>();
+      const stale: string[] = [];
+      const fresh = (key: string) => key in inputs
+        ? current.find(ch => ch.id === key)?.processedValues === inputs[key]
+        : !refined.has(key) || accepted.has(key);
+      jobs.forEach(job => {
+        const ch = current.find(c => c.id === job.id);
+        if (!ch || !matches(ch)) return;
+        if (chainInputs(job.chain).every(fresh)) accepted.add(job.id);
+        else stale.push(job.id);
+      });
+
+      if (accepted.size) {
+        const apply = (list: ChannelState[]) => list.map(ch =>
+          accepted.has(ch.id) && matches(ch) ? { ...ch, processedValues: result[ch.id] } : ch);
+        // Keep the ref current right away so batches finishing before the next render see these values
+        channelStatesRef.current = apply(current);
+        setChannelStates(prev => apply(prev));
+      }
+      stale.forEach(id => scheduleRefine(id));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Refines a channel (and its sidechain dependents) once the user pauses
+  const scheduleRefine = useCallback((id: string) => {
+    window.clearTimeout(refineTimersRef.current[id]);
+    refineTimersRef.current[id] = window.setTimeout(() => {
+      refineChannels([id], channelStatesRef.current, rawChannelsRef.current, configRef.current);
+    }, REFINE_DEBOUNCE_MS);
+  }, []);
+
+  // Re-process channels whose chain or automation differs between two state lists
+  const refineChangedChains = (before: ChannelState[], after: ChannelState[]) => {
+    after.forEach(ch => {
+      const prev = before.find(p => p.id === ch.id);
+      if (prev && (prev.settings !== ch.settings || prev.automation !== ch.automation)) scheduleRefine(ch.id);
     });
   };
 
+  // Every undoable channel edit goes through here
+  const editChannels = useCallback((label: string, patches: Record<string, ChannelPatch>, coalesceKey?: string) => {
+    const current = channelStatesRef.current;
+    const changes = Object.entries(patches).flatMap(([id, after]) => {
+      const state = current.find(ch => ch.id === id);
+      return state ? [{ id, before: snapshotPatch(state, after), after }] : [];
+    });
+    if (!changes.length) return;
+
+    const next = applyChanges(current, changes, 'after');
+    historyRef.current = recordEdit(historyRef.current, label, changes, coalesceKey);
+    channelStatesRef.current = next;
+    setHistory(historyRef.current);
+    setChannelStates(prev => applyChanges(prev, changes, 'after'));
+    refineChangedChains(current, next);
+  }, [scheduleRefine]);
+
+  // Moves through history: negative steps undo, positive steps redo
+  const stepHistory = useCallback((steps: number) => {
+    let { past, future } = historyRef.current;
+    const before = channelStatesRef.current;
+    let states = before;
+    for (; steps < 0 && past.length > 0; steps++) {
+      const entry = past[past.length - 1];
+      past = past.slice(0, -1);
+      future = [...future, entry];
+      states = applyChanges(states, entry.changes, 'before');
+    }
+    for (; steps > 0 && future.length > 0; steps--) {
+      const entry = future[future.length - 1];
+      future = future.slice(0, -1);
+      past = [...past, entry];
+      states = applyChanges(states, entry.changes, 'after');
+    }
+    if (states === before) return;
+
+    historyRef.current = { past, future };
+    channelStatesRef.current = states;
+    setHistory(historyRef.current);
+    setChannelStates(states);
+    refineChangedChains(before, states);
+  }, [scheduleRefine]);
+
+  const resetHistory = () => {
+    historyRef.current = EMPTY_HISTORY;
+    setHistory(EMPTY_HISTORY);
+  };
+
+  const updateRefinement = useCallback((id: string, settings: RefinementChain) => {
+    const ch = channelStatesRef.current.find(c => c.id === id);
+    if (!ch) return;
+    try {
+      const next = channelStatesRef.current.map(c => c.id === id ? { ...c, settings } : c);
+      topologicalOrder(channelDependencies(rawChannelsRef.current, next));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const { label, coalesceKey } = describeChainChange(id, ch.settings, settings);
+    editChannels(label, { [id]: { settings } }, coalesceKey);
+  }, [editChannels]);
+
+  const updateChannelOutput = useCallback((id: string, patch: ChannelOutputPatch) => {
+    const fields = Object.keys(patch).join(',');
+    editChannels(`${id}: edit ${fields}`, { [id]: patch }, `output:${id}:${fields}`);
+  }, [editChannels]);
+
+  const updateAutomation = useCallback((id: string, automation: AutomationSegment[], label: string, coalesceKey?: string) => {
+    editChannels(`${id}: ${label}`, { [id]: { automation } }, coalesceKey);
+  }, [editChannels]);
+
+  // Derived channels
+  const createDerivedChannel = (name: string, expression: string) => {
+    const id = name.toLowerCase().replace(/[^\w]+/g, '_').replace(/^_+|_+$/g, '');
+    if (!id) throw new Error('Name needs at least one letter or digit');
+    if (rawChannels.some(r => r.id === id)) throw new Error(`A channel called "${id}" already exists`);
+    validateDerived(id, expression, rawChannels, channelStates);
+
+    // Values are filled in by the derived-channel effect below
+    setRawChannels(prev => [...prev, { id, name, sourceId: 'master', values: new Float32Array(0), type: 'derived', expression }]);
+    setChannelStates(prev => [...prev, {
+      id,
+      settings: [],
+      processedValues: new Float32Array(0),
+      visible: true,
+      mute: false,
+      solo: false,
+      color: COLORS[prev.length % COLORS.length],
+      label: id,
+      ...DEFAULT_OUTPUT_RANGE,
+      automation: []
+    }]);
+    setSelectedChannelId(id);
+    setIsAddingDerived(false);
+  };
+
+  const updateDerivedExpression = (id: string, expression: string) => {
+    validateDerived(id, expression, rawChannels, channelStates);
+    setRawChannels(prev => prev.map(r => r.id === id ? { ...r, expression } : r));
+  };
+
+  const removeDerivedChannel = (id: string) => {
+    const dependents = Array.from(channelDependencies(rawChannels, channelStates))
+      .filter(([other, refs]) => other !== id && refs.includes(id))
+      .map(([other]) => other);
+    if (dependents.length) {
+      alert(`Can't delete "${id}": used by ${dependents.join(', ')}`);
+      return;
+    }
+    delete derivedCacheRef.current[id];
+    setRawChannels(prev => prev.filter(r => r.id !== id));
+    setChannelStates(prev => prev.filter(ch => ch.id !== id));
+    if (selectedChannelId === id) setSelectedChannelId(null);
+  };
+
+  // Re-evaluates derived channels whenever their inputs change, upstream first
+  useEffect(() => {
+    if (!rawChannels.some(r => r.type === 'derived')) return;
+    const length = rawChannels.reduce((n, r) => r.type === 'derived' ? n : Math.max(n, r.values.length), 0);
+    const updates: Record<string, Float32Array> = {};
+
+    let order: string[];
+    try {
+      order = derivedOrder(rawChannels);
+    } catch (err) {
+      console.error(err);
+      return;
+    }
+
+    order.forEach(id => {
+      const raw = rawChannels.find(r => r.id === id);
+      if (!raw?.expression) return;
+      let compiled: CompiledExpression;
+      try {
+        compiled = compileExpression(raw.expression);
+      } catch (err) {
+        console.error(err);
+        return;
+      }
+      const inputs = resolveInputs(compiled, rawChannels, channelStates);
+      const cached = derivedCacheRef.current[id];
+      if (cached && cached.expression === raw.expression && cached.config === config &&
+          cached.inputs.every((input, i) => input === inputs[i])) return;
+      derivedCacheRef.current[id] = { inputs, expression: raw.expression, config };
+      updates[id] = compiled.evaluate(inputs, length, config);
+    });
+
+    const ids = Object.keys(updates);
+    if (!ids.length) return;
+    rawChannelsRef.current = rawChannels.map(r => updates[r.id] ? { ...r, values: updates[r.id] } : r);
+    setRawChannels(rawChannelsRef.current);
+    ids.forEach(id => scheduleRefine(id));
+  }, [rawChannels, channelStates, config, scheduleRefine]);
+
+  // Recomputes every channel's processed values in the background
+  const refineAll = (states: ChannelState[], raws: RawChannelData[], cfg: AnalysisConfig) =>
+    refineChannels(states.map(st => st.id), states, raws, cfg);
+
+  const applyProject = (project: ProjectData) => {
+    setConfig(project.config);
+    setAnalyzedConfig(project.config);
+    setFiles(project.files.map(f => ({ ...f })));
+    setRawChannels(project.rawChannels);
+    setChannelStates(project.channelStates);
+    setSelectedChannelId(project.selectedChannelId);
+    resetHistory();
+    setTempoEstimate(null);
+    setCurrentTime(0);
+    setView('refine');
+    refineAll(project.channelStates, project.rawChannels, project.config);
+  };
+
+  const buildProject = () => encodeProject({
+    config,
+    files: files.map(({ file, buffer, ...meta }) => meta),
+    rawChannels,
+    channelStates,
+    selectedChannelId
+  });
+
+  const saveProject = () => {
+    downloadBlob(buildProject(), `motionsignal_${config.bpm}bpm${PROJECT_EXTENSION}`, 'application/octet-stream');
+  };
+
+  const openProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      applyProject(decodeProject(await file.arrayBuffer()));
+    } catch (err) {
+      console.error(err);
+      alert(`Could not open project: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // Offer the last autosaved session on startup
+  useEffect(() => {
+    loadLastSession()
+      .then(encoded => encoded && setLastSession(decodeProject(encoded)))
+      .catch(err => console.warn('Last session unavailable', err));
+  }, []);
+
+  const discardLastSession = () => {
+    setLastSession(null);
+    clearLastSession().catch(console.error);
+  };
+
+  // Autosave the working session once edits settle
+  useEffect(() => {
+    if (view !== 'refine' || rawChannels.length === 0) return;
+    const timer = window.setTimeout(() => {
+      saveLastSession(buildProject()).catch(err => console.warn('Autosave failed', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [view, config, files, rawChannels, channelStates, selectedChannelId]);
+
+  const toggleChannelState = (id: string, key: 'visible' | 'mute' | 'solo') => {
+    // Additive solo, DAW-style
+    const ch = channelStatesRef.current.find(c => c.id === id);
+    if (!ch) return;
+    const labels = { visible: ['show', 'hide'], mute: ['mute', 'unmute'], solo: ['solo', 'unsolo'] };
+    editChannels(`${id}: ${labels[key][ch[key] ? 1 : 0]}`, { [id]: { [key]: !ch[key] } });
+  };
+
+  // Undo / redo shortcuts, left to the browser while typing in a text field
+  useEffect(() => {
+    if (view !== 'refine') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        stepHistory(e.shiftKey ? 1 : -1);
+      } else if (key === 'y') {
+        e.preventDefault();
+        stepHistory(1);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [view, stepHistory]);
+
   // Compute actual visible channels based on Mute/Solo
   const visibleChannels = useMemo(() => {
     const anySolo = channelStates.some(ch => ch.solo);
@@ -129,146 +652,214 @@ export default function App() {
         return { ...ch, visible: !ch.mute };
     });
   }, [channelStates]);
+  const visibleChannelsRef = useRef(visibleChannels);
+  visibleChannelsRef.current = visibleChannels;
+
+  const sections = useMemo(() => sectionsOf(rawChannels), [rawChannels]);
+  // Frame-timing edits in the Analyze view leave the analyzed frames out of step until re-run
+  const analysisStale = rawChannels.length > 0 && !!analyzedConfig && !sameFrameTiming(analyzedConfig, config);
+
+  // Signal entering each curve processor of the selected channel, for the editor's live dot.
+  // Only re-runs a stage when the processors before it or their sidechains change, so
+  // dragging a curve point or background refines of other channels stay cheap
+  const curveStageInputs = useMemo(() => {
+    const stages: Record<string, Float32Array> = {};
+    const ch = channelStates.find(c => c.id === selectedChannelId);
+    const raw = rawChannels.find(r => r.id === selectedChannelId);
+    if (!ch || !raw || !ch.settings.some(p => p.type === 'curve' && !p.bypass)) return stages;
+    ch.settings.forEach((p, idx) => {
+      if (p.type !== 'curve') return;
+      const prefix = ch.settings.slice(0, idx);
+      const keys = chainInputs(prefix);
+      const sources = keys.map(key => channelStates.find(c => c.id === key)?.processedValues);
+      const cached = curveStageCacheRef.current[p.id];
+      if (cached && cached.raw === raw.values && cached.config === config &&
+          cached.prefix.length === prefix.length && cached.prefix.every((q, i) => q === prefix[i]) &&
+          cached.inputs.length === sources.length && cached.inputs.every((input, i) => input === sources[i])) {
+        stages[p.id] = cached.values;
+        return;
+      }
+      const inputs: Record<string, Float32Array> = {};
+      keys.forEach((key, i) => { if (sources[i]) inputs[key] = sources[i]!; });
+      const values = refineChannel(raw.values, prefix, config.bpm, config.fps, config.beatOffset, inputs);
+      curveStageCacheRef.current[p.id] = { raw: raw.values, prefix, inputs: sources, config, values };
+      stages[p.id] = values;
+    });
+    return stages;
+  }, [selectedChannelId, channelStates, rawChannels, config]);
 
   // Current value for the "Signal Preview" box
   const currentSignalValue = useMemo(() => {
     if (!selectedChannelId) return 0;
     const ch = channelStates.find(c => c.id === selectedChannelId);
     if (!ch) return 0;
-    const frame = Math.floor(currentTime * config.fps);
-    if (frame >= 0 && frame < ch.processedValues.length) {
-        return ch.processedValues[frame];
-    }
-    return 0;
+    return valueAtTime(ch.processedValues, currentTime, config.fps);
   }, [selectedChannelId, currentTime, channelStates, config.fps]);
 
 
+  // Audio Playback
+  const getEngine = () => {
+    if (!engineRef.current) engineRef.current = createAudioEngine();
+    return engineRef.current;
+  };
+
+  useEffect(() => () => engineRef.current?.dispose(), []);
+
+  const playbackTracks = () => files.flatMap(f => f.buffer ? [{ id: f.id, buffer: f.buffer }] : []);
+
+  // The audio clock drives the playhead
   useEffect(() => {
-    const animate = (time: number) => {
-      if (lastTimeRef.current !== undefined) {
-        const delta = (time - lastTimeRef.current) / 1000;
-        setCurrentTime(prev => {
-            const next = prev + delta;
-            const maxDur = Math.max(...files.map(f => f.duration || 0)) || 10;
-            return next > maxDur ? 0 : next;
-        });
-      }
-      lastTimeRef.current = time;
-      if (isPlaying) {
-        playReqRef.current = requestAnimationFrame(animate);
+    if (!isPlaying) return;
+    const engine = getEngine();
+    const maxDur = duration || 10;
+    engine.play(playbackTracks(), currentTimeRef.current >= maxDur ? 0 : currentTimeRef.current);
+
+    const animate = () => {
+      let time = engine.getTime();
+      const region = loopRef.current;
+      if (region?.enabled && region.end > region.start && time >= region.end) {
+        engine.play(playbackTracks(), region.start);
+        time = region.start;
+      } else if (time >= maxDur) {
+        engine.play(playbackTracks(), 0);
+        time = 0;
       }
+      setCurrentTime(time);
+      playReqRef.current = requestAnimationFrame(animate);
     };
+    playReqRef.current = requestAnimationFrame(animate);
 
-    if (isPlaying) {
-        lastTimeRef.current = performance.now();
-        playReqRef.current = requestAnimationFrame(animate);
-    } else {
-        cancelAnimationFrame(playReqRef.current!);
-    }
-    return () => cancelAnimationFrame(playReqRef.current!);
+    return () => {
+      cancelAnimationFrame(playReqRef.current);
+      engine.pause();
+    };
   }, [isPlaying, files]);
 
-  const exportData = () => {
-    if (!channelStates.length) return;
-    const jsonName = `motion_data_${config.bpm}bpm.json`;
-    
-    // 1. JSON Export
-    const exportObj = {
-        metadata: {
-            fps: config.fps,
-            bpm: config.bpm,
-            duration: rawChannels[0].values.length / config.fps,
-            createdAt: new Date().toISOString(),
-            generator: "MotionSignal v1.0"
-        },
-        channels: {} as Record<string, number[]>
+  // Live streaming: one frame of visible channel values per tick while playing
+  const getStream = () => {
+    if (!streamRef.current) streamRef.current = createStreamClient(setStreamStatus);
+    return streamRef.current;
+  };
+
+  useEffect(() => () => streamRef.current?.disconnect(), []);
+
+  const toggleStream = () => {
+    if (streamStatus === 'disconnected') getStream().connect(streamUrl);
+    else getStream().disconnect();
+  };
+
+  useEffect(() => {
+    if (!isPlaying || streamStatus !== 'connected') return;
+    const timer = window.setInterval(() => {
+      const time = engineRef.current?.getTime() ?? currentTimeRef.current;
+      const values: Record<string, number> = {};
+      visibleChannelsRef.current.forEach(ch => {
+        if (ch.visible) values[ch.id] = valueAtTime(ch.processedValues, time, configRef.current.fps);
+      });
+      getStream().send(time, values);
+    }, 1000 / streamRate);
+    return () => clearInterval(timer);
+  }, [isPlaying, streamStatus, streamRate]);
+
+  const seek = useCallback((time: number) => {
+    const clamped = Math.max(0, Math.min(duration, time));
+    currentTimeRef.current = clamped;
+    setCurrentTime(clamped);
+    if (isPlaying) getEngine().play(playbackTracks(), clamped);
+  }, [duration, isPlaying, files]);
+
+  // Transport shortcuts: space, arrows (shift = beat, alt = bar), home/end, [ ] L for loop
+  useEffect(() => {
+    if (view !== 'refine') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target) || e.ctrlKey || e.metaKey) return;
+      const time = currentTimeRef.current;
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          (e.target as HTMLElement).blur?.();
+          setIsPlaying(p => !p);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+          if (e.target instanceof HTMLInputElement) break; // Sliders keep their arrow keys
+          e.preventDefault();
+          const unit: StepUnit = e.altKey ? 'bar' : e.shiftKey ? 'beat' : 'frame';
+          seek(stepTime(time, unit, e.key === 'ArrowRight' ? 1 : -1, config));
+          break;
+        }
+        case 'Home':
+          e.preventDefault();
+          seek(loopRef.current?.enabled ? loopRef.current.start : 0);
+          break;
+        case 'End':
+          e.preventDefault();
+          seek(duration);
+          break;
+        case '[':
+          setLoop(prev => ({ start: time, end: prev && prev.end > time ? prev.end : duration, enabled: true }));
+          break;
+        case ']':
+          setLoop(prev => ({ start: prev && prev.start < time ? prev.start : 0, end: time, enabled: true }));
+          break;
+        case 'l':
+        case 'L':
+          setLoop(prev => prev ? { ...prev, enabled: !prev.enabled } : prev);
+          break;
+      }
     };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [view, seek, config, duration]);
 
-    channelStates.forEach(ch => {
-        exportObj.channels[ch.id] = Array.from(ch.processedValues).map(v => Number(v.toFixed(4)));
+  const toggleTrackMix = (id: string, key: keyof TrackMix) => {
+    setTrackMix(prev => {
+      const mix = prev[id] ?? { mute: false, solo: false };
+      return { ...prev, [id]: { ...mix, [key]: !mix[key] } };
     });
+  };
 
-    const blob = new Blob([JSON.stringify(exportObj)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = jsonName;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    // 2. ExtendScript (.jsx) Export
-    setTimeout(() => {
-        let script = `
-        {
-            app.beginUndoGroup("Create Motion Controller");
-            
-            // 1. Find JSON Footage Item
-            var proj = app.project;
-            var jsonItem = null;
-            
-            // Check selection first
-            if (proj.selection.length > 0) {
-                if (proj.selection[0].name.indexOf(".json") !== -1) {
-                    jsonItem = proj.selection[0];
-                }
-            }
-            
-            if (!jsonItem) {
-                // Try to find by name
-                for (var i = 1; i <= proj.numItems; i++) {
-                    if (proj.item(i).name === "${jsonName}") {
-                        jsonItem = proj.item(i);
-                        break;
-                    }
-                }
-            }
-            
-            if (!jsonItem) {
-                alert("Please import and select '${jsonName}' in the project bin before running this script.");
-            } else {
-                // 2. Get/Create Comp
-                var comp = proj.activeItem;
-                if (!comp || !(comp instanceof CompItem)) {
-                    // Create a comp if none active
-                    comp = proj.items.addComp("Motion Data Comp", 1920, 1080, 1, ${rawChannels[0].values.length / config.fps}, ${config.fps});
-                    comp.openInViewer();
-                }
-                
-                // 3. Create Controller
-                var controllerName = "MOTION_CONTROLLER";
-                var layer = comp.layers.addNull();
-                layer.name = controllerName;
-                layer.label = 11; // Orange label
-                
-                // 4. Add Sliders & Expressions
-        `;
-
-        channelStates.forEach(ch => {
-            script += `
-                var s = layer.Effects.addProperty("ADBE Slider Control");
-                s.name = "${ch.id}";
-                s.property(1).expression = 'try { footage("' + jsonItem.name + '").sourceData.channels["${ch.id}"][timeToFrames(time)] * 100 } catch(e) { 0; }';
-            `;
-        });
+  // Effective level per file: follow-selection beats solo, solo beats mute
+  const trackLevels = useMemo(() => {
+    const master = files.find(f => f.type === 'master');
+    let followId: string | undefined;
+    if (followSelection && selectedChannelId) {
+      const sourceId = rawChannels.find(r => r.id === selectedChannelId)?.sourceId;
+      const base = sourceId && splitSourceId(sourceId).base;
+      followId = (files.find(f => f.id === base) ?? master)?.id;
+    }
+    const anySolo = files.some(f => trackMix[f.id]?.solo);
+    const levels: Record<string, number> = {};
+    files.forEach(f => {
+      const mix = trackMix[f.id];
+      if (followId) levels[f.id] = f.id === followId ? 1 : 0;
+      else if (anySolo) levels[f.id] = mix?.solo ? 1 : 0;
+      else levels[f.id] = mix?.mute ? 0 : 1;
+    });
+    return levels;
+  }, [files, trackMix, followSelection, selectedChannelId, rawChannels]);
 
-        script += `
-            }
-            app.endUndoGroup();
-        }
-        `;
-
-        const scriptBlob = new Blob([script], { type: 'text/javascript' });
-        const scriptUrl = URL.createObjectURL(scriptBlob);
-        const sa = document.createElement('a');
-        sa.href = scriptUrl;
-        sa.download = "Create_AE_Controller.jsx";
-        document.body.appendChild(sa);
-        sa.click();
-        document.body.removeChild(sa);
-        URL.revokeObjectURL(scriptUrl);
-    }, 1000);
+  useEffect(() => getEngine().setLevels(trackLevels), [trackLevels]);
+
+  const exportContext = (): ExportContext => ({
+    channels: channelStates,
+    rawChannels,
+    files: files.map(({ file, buffer, ...meta }) => meta),
+    config,
+    duration: (rawChannels[0]?.values.length ?? 0) / config.fps,
+    selectedChannelId,
+    ae: aeOptions,
+    midiLanes,
+    blender: blenderOptions,
+  });
+
+  const exportAs = (format: ExportFormat) => runExport(format, exportContext());
+
+  const copyAs = (format: ExportFormat) => {
+    copyExport(format, exportContext()).catch(err => {
+      console.error(err);
+      alert("Couldn't write to the clipboard.");
+    });
   };
 
   return (
@@ -280,7 +871,13 @@ export default function App() {
                 <h1 className="font-bold tracking-tight text-lg">MotionSignal</h1>
             </div>
             <div className="flex items-center gap-4 text-xs font-mono text-zinc-400">
-                <span>FPS: {config.fps}</span>
+                {view === 'refine' && (
+                    <button onClick={() => setView('analyze')} className="flex items-center gap-1 hover:text-cyan-400">
+                        <Settings size={12} />
+                        ANALYSIS
+                    </button>
+                )}
+                <span>FPS: {formatFps(config.fps)}{config.dropFrame ? ' DF' : ''}</span>
                 <span>BPM: {config.bpm}</span>
             </div>
         </header>
@@ -309,6 +906,29 @@ export default function App() {
                         </div>
                     </div>
 
+                    <div className="w-96 flex items-center justify-between gap-2">
+                        <label className="flex items-center gap-2 text-xs font-mono text-zinc-400 hover:text-cyan-400 cursor-pointer">
+                            <FolderOpen size={14} />
+                            Open project ({PROJECT_EXTENSION})
+                            <input type="file" accept={PROJECT_EXTENSION} onChange={openProject} className="hidden" />
+                        </label>
+                        {lastSession && (
+                            <div className="flex items-center gap-2">
+                                <button 
+                                    onClick={() => applyProject(lastSession)}
+                                    className="flex items-center gap-1 text-xs font-mono text-cyan-400 hover:text-cyan-300"
+                                    title={`Saved ${new Date(lastSession.savedAt).toLocaleString()}`}
+                                >
+                                    <RotateCcw size={12} />
+                                    Restore last session
+                                </button>
+                                <button onClick={discardLastSession} className="text-[10px] font-mono text-zinc-600 hover:text-red-400">
+                                    discard
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
                     {files.length > 0 && (
                         <div className="w-96 space-y-2">
                             {files.map(f => (
@@ -332,7 +952,7 @@ export default function App() {
             )}
 
             {view === 'analyze' && (
-                <div className="absolute inset-0 flex flex-col items-center justify-center p-8 space-y-8 animate-in fade-in slide-in-from-right-10 duration-500">
+                <div className="absolute inset-0 flex flex-col items-center justify-center p-8 space-y-8 overflow-y-auto animate-in fade-in slide-in-from-right-10 duration-500">
                     <div className="w-96 bg-zinc-900 border border-zinc-800 p-6 rounded-xl space-y-6">
                         <h2 className="text-xl font-bold flex items-center gap-2">
                             <Settings className="text-cyan-500" size={20} />
@@ -342,22 +962,154 @@ export default function App() {
                         <div className="space-y-4">
                             <div>
                                 <label className="block text-xs font-mono text-zinc-400 mb-1">Target FPS</label>
-                                <input 
-                                    type="number" 
-                                    value={config.fps} 
-                                    onChange={(e) => setConfig({...config, fps: parseInt(e.target.value)})}
-                                    className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
-                                />
-                                <p className="text-[10px] text-zinc-600 mt-1">Match your AE Comp FPS (usually 24, 30, or 60)</p>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select
+                                        value={FPS_PRESETS.findIndex(p => Math.abs(p.fps - config.fps) < 1e-6 && p.dropFrame === config.dropFrame)}
+                                        onChange={(e) => {
+                                            const preset = FPS_PRESETS[Number(e.target.value)];
+                                            if (preset) setConfig({...config, fps: preset.fps, dropFrame: preset.dropFrame});
+                                        }}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
+                                    >
+                                        <option value={-1} disabled>Custom</option>
+                                        {FPS_PRESETS.map((p, i) => <option key={p.label} value={i}>{p.label}</option>)}
+                                    </select>
+                                    <input 
+                                        type="number" 
+                                        step="any"
+                                        min={1}
+                                        defaultValue={formatFps(config.fps)}
+                                        key={config.fps}
+                                        onBlur={(e) => {
+                                            const fps = normalizeFps(parseFloat(e.target.value));
+                                            if (fps > 0) setConfig({...config, fps, dropFrame: config.dropFrame && supportsDropFrame(fps)});
+                                        }}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
+                                    />
+                                </div>
+                                <p className="text-[10px] text-zinc-600 mt-1">Match your AE Comp FPS. 29.97 and 23.976 are the exact NTSC rates (30000/1001, 24000/1001).</p>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="block text-xs font-mono text-zinc-400 mb-1">Window</label>
+                                    <select
+                                        value={config.windowAlignment}
+                                        onChange={(e) => setConfig({...config, windowAlignment: e.target.value as WindowAlignment})}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
+                                    >
+                                        <option value="start">Frame start</option>
+                                        <option value="centered">Centered</option>
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-mono text-zinc-400 mb-1">Length (frames)</label>
+                                    <input 
+                                        type="number" 
+                                        step={0.5}
+                                        min={1}
+                                        max={8}
+                                        value={config.windowFrames} 
+                                        onChange={(e) => setConfig({...config, windowFrames: Math.max(1, Math.min(8, parseFloat(e.target.value) || 1))})}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
+                                    />
+                                </div>
+                            </div>
+                            <p className="text-[10px] text-zinc-600 -mt-2">Longer windows overlap their neighbours for smoother levels; centered windows remove the half-frame lag.</p>
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="block text-xs font-mono text-zinc-400 mb-1">BPM</label>
+                                    <input 
+                                        type="number" 
+                                        step={0.01}
+                                        value={config.bpm} 
+                                        onChange={(e) => setConfig({...config, bpm: parseFloat(e.target.value)})}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-xs font-mono text-zinc-400 mb-1">Downbeat (s)</label>
+                                    <input 
+                                        type="number" 
+                                        step={0.001}
+                                        value={config.beatOffset} 
+                                        onChange={(e) => setConfig({...config, beatOffset: parseFloat(e.target.value) || 0})}
+                                        className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
+                                    />
+                                </div>
+                            </div>
+                            <div className="flex items-center justify-between -mt-2">
+                                <p className="text-[10px] text-zinc-600">
+                                    {isDetectingTempo
+                                        ? 'Detecting tempo...'
+                                        : tempoEstimate
+                                            ? `Detected ${tempoEstimate.bpm} BPM (${Math.round(tempoEstimate.confidence * 100)}% confidence)`
+                                            : 'Aligns beat/bar phase to the grid'}
+                                </p>
+                                <button 
+                                    onClick={runTempoDetection}
+                                    disabled={isDetectingTempo || files.length === 0}
+                                    className="flex items-center gap-1 text-[10px] font-mono text-zinc-400 hover:text-cyan-400 disabled:opacity-40"
+                                >
+                                    <Wand2 size={10} />
+                                    DETECT
+                                </button>
                             </div>
                             <div>
-                                <label className="block text-xs font-mono text-zinc-400 mb-1">BPM</label>
-                                <input 
-                                    type="number" 
-                                    value={config.bpm} 
-                                    onChange={(e) => setConfig({...config, bpm: parseInt(e.target.value)})}
-                                    className="w-full bg-zinc-950 border border-zinc-800 rounded p-2 text-white focus:border-cyan-500 outline-none"
-                                />
+                                <label className="block text-xs font-mono text-zinc-400 mb-1">Level Normalization</label>
+                                <div className="space-y-3">
+                                    {files.map(f => (
+                                        <NormalizationEditor
+                                            key={f.id}
+                                            file={f}
+                                            hasMeasurements={!analysisStale && rawChannels.some(r => splitSourceId(r.sourceId).base === (f.type === 'master' ? 'master' : f.id) && r.measurements)}
+                                            onChange={updateNormalization}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-mono text-zinc-400 mb-1">Harmony</label>
+                                <div className="space-y-1">
+                                    {files.map(f => (
+                                        <label key={f.id} className="flex items-center justify-between gap-2 text-xs text-zinc-300">
+                                            <span className="truncate">{f.name}</span>
+                                            <input
+                                                type="checkbox"
+                                                checked={f.tonal}
+                                                onChange={(e) => updateTonal(f.id, e.target.checked)}
+                                                className="accent-cyan-500"
+                                            />
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-[10px] text-zinc-600 mt-1">Adds 12 chroma channels, pitch + confidence and the key. Slower on long files.</p>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-mono text-zinc-400 mb-1">Separation</label>
+                                <div className="space-y-1">
+                                    {files.map(f => (
+                                        <label key={f.id} className="flex items-center justify-between gap-2 text-xs text-zinc-300">
+                                            <span className="truncate">{f.name}</span>
+                                            <select
+                                                value={f.separation}
+                                                onChange={(e) => updateSeparation(f.id, e.target.value as SeparationMode)}
+                                                className="bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-zinc-400 outline-none focus:border-cyan-500"
+                                            >
+                                                {SEPARATION_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                                            </select>
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-[10px] text-zinc-600 mt-1">Splits a mix into harmonic and percussive parts, analyzed like stems (e.g. drum hits vs. pads). Roughly doubles analysis time.</p>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-mono text-zinc-400 mb-1">Frequency Bands (FFT)</label>
+                                <div className="space-y-4">
+                                    {files.map(f => (
+                                        <BandEditor key={f.id} file={f} onChange={updateBands} />
+                                    ))}
+                                </div>
+                                <p className="text-[10px] text-zinc-600 mt-1">Each band becomes its own channel (low / high Hz)</p>
                             </div>
                         </div>
 
@@ -367,14 +1119,46 @@ export default function App() {
                                     <div className="h-full bg-cyan-500 transition-all duration-300" style={{ width: `${analyzeProgress}%` }}></div>
                                 </div>
                                 <p className="text-center text-xs text-zinc-500 animate-pulse">Analyzing audio dynamics...</p>
+                                <div className="space-y-1">
+                                    {files.map(f => (
+                                        <div key={f.id} className="flex items-center gap-2 text-[10px] font-mono text-zinc-500">
+                                            <span className="truncate flex-1">{f.name}</span>
+                                            <span className="w-28 truncate text-right">{fileProgress[f.id]?.stage}</span>
+                                            <div className="w-12 h-1 bg-zinc-950 rounded-full overflow-hidden">
+                                                <div className="h-full bg-cyan-700" style={{ width: `${(fileProgress[f.id]?.fraction ?? 0) * 100}%` }}></div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                                <button 
+                                    onClick={cancelAnalysis}
+                                    className="w-full border border-zinc-700 hover:border-red-500 hover:text-red-400 text-zinc-400 text-xs font-bold py-2 rounded transition-colors"
+                                >
+                                    Cancel
+                                </button>
                              </div>
                         ) : (
-                            <button 
-                                onClick={startAnalysis}
-                                className="w-full bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-3 rounded"
-                            >
-                                Run Analysis
-                            </button>
+                            <div className="space-y-2">
+                                <button 
+                                    onClick={startAnalysis}
+                                    className="w-full bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-3 rounded"
+                                >
+                                    Run Analysis
+                                </button>
+                                {rawChannels.length > 0 && !analysisStale && (
+                                    <button 
+                                        onClick={() => setView('refine')}
+                                        className="w-full border border-zinc-700 hover:border-zinc-500 text-zinc-400 text-xs font-bold py-2 rounded transition-colors"
+                                    >
+                                        Back to Channels
+                                    </button>
+                                )}
+                                {analysisStale && (
+                                    <p className="text-[10px] text-amber-400">
+                                        Frame rate or window changed since the last analysis ({formatFps(analyzedConfig!.fps)} fps). Run it again to update the channels.
+                                    </p>
+                                )}
+                            </div>
                         )}
                     </div>
                 </div>
@@ -385,7 +1169,26 @@ export default function App() {
                     {/* Sidebar Channels */}
                     <div className="w-64 bg-zinc-900 border-r border-zinc-800 flex flex-col min-h-0 z-20">
                         <div className="p-4 border-b border-zinc-800">
-                            <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Channels</h3>
+                            <div className="flex items-center justify-between">
+                                <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">Channels</h3>
+                                <button
+                                    onClick={() => setIsAddingDerived(!isAddingDerived)}
+                                    title="New channel from an expression"
+                                    className="text-[10px] font-mono text-cyan-500 hover:text-cyan-400"
+                                >
+                                    + DERIVED
+                                </button>
+                            </div>
+                            {isAddingDerived && (
+                                <div className="mt-3">
+                                    <DerivedChannelForm
+                                        submitLabel="Create"
+                                        showName={true}
+                                        onSubmit={createDerivedChannel}
+                                        onCancel={() => setIsAddingDerived(false)}
+                                    />
+                                </div>
+                            )}
                         </div>
                         <div className="flex-1 overflow-y-auto p-2 space-y-1">
                             {channelStates.map(ch => (
@@ -410,7 +1213,7 @@ export default function App() {
                                     
                                     <div className="flex-1 min-w-0">
                                         <p className={`text-xs font-medium truncate ${selectedChannelId === ch.id ? 'text-zinc-100' : 'text-zinc-400'}`}>
-                                            {ch.id}
+                                            {ch.label || ch.id}
                                         </p>
                                     </div>
 
@@ -432,28 +1235,64 @@ export default function App() {
                                 </div>
                             ))}
                         </div>
+                        <HistoryPanel 
+                            history={history}
+                            onUndo={() => stepHistory(-1)}
+                            onRedo={() => stepHistory(1)}
+                            onJump={stepHistory}
+                        />
                     </div>
 
                     {/* Main Area */}
                     <div className="flex-1 flex flex-col bg-zinc-950 min-w-0 min-h-0">
                         {/* Toolbar */}
                         <div className="h-12 border-b border-zinc-800 flex items-center justify-between px-4 bg-zinc-950 flex-shrink-0">
-                            <div className="flex items-center gap-2">
+                            <div className="flex items-center gap-2 min-w-0">
                                 <button 
                                     onClick={() => setIsPlaying(!isPlaying)}
                                     className="p-2 hover:bg-zinc-800 rounded-full text-zinc-200 transition-colors"
                                 >
                                     {isPlaying ? <Pause size={18} /> : <Play size={18} />}
                                 </button>
-                                <span className="text-xs font-mono text-zinc-500 ml-2">SPACE to toggle</span>
+                                <span className="text-xs font-mono text-zinc-500 ml-2 mr-2 flex-shrink-0" title="Arrows step frames (Shift: beat, Alt: bar) · Home/End · [ ] set loop · L toggles loop">SPACE to toggle</span>
+                                <TrackMixer 
+                                    files={files}
+                                    mix={trackMix}
+                                    levels={trackLevels}
+                                    followSelection={followSelection}
+                                    onToggle={toggleTrackMix}
+                                    onToggleFollow={() => setFollowSelection(!followSelection)}
+                                />
+                                <StreamControls
+                                    status={streamStatus}
+                                    url={streamUrl}
+                                    rate={streamRate}
+                                    onUrlChange={setStreamUrl}
+                                    onRateChange={setStreamRate}
+                                    onToggle={toggleStream}
+                                />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button 
+                                    onClick={saveProject}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-zinc-300 border border-zinc-800 rounded hover:bg-zinc-800 transition-colors text-sm font-medium"
+                                >
+                                    <Save size={16} />
+                                    Save Project
+                                </button>
+                                <ExportPanel 
+                                    aeOptions={aeOptions}
+                                    onAeOptionsChange={setAeOptions}
+                                    onExport={exportAs}
+                                    onCopy={copyAs}
+                                    channels={channelStates}
+                                    rawChannels={rawChannels}
+                                    midiLanes={midiLanes}
+                                    onMidiLanesChange={setMidiLanes}
+                                    blenderOptions={blenderOptions}
+                                    onBlenderOptionsChange={setBlenderOptions}
+                                />
                             </div>
-                            <button 
-                                onClick={exportData}
-                                className="flex items-center gap-2 px-4 py-1.5 bg-cyan-900/30 text-cyan-400 border border-cyan-900/50 rounded hover:bg-cyan-900/50 transition-colors text-sm font-medium"
-                            >
-                                <Download size={16} />
-                                Export JSON + Script
-                            </button>
                         </div>
 
                         {/* Visualizer */}
@@ -461,10 +1300,15 @@ export default function App() {
                             {rawChannels.length > 0 && (
                                 <Timeline 
                                     channels={visibleChannels} 
-                                    duration={files.reduce((acc, f) => Math.max(acc, f.duration), 0)}
+                                    duration={duration}
                                     config={config}
                                     currentTime={currentTime}
-                                    onScrub={setCurrentTime}
+                                    onScrub={seek}
+                                    loop={loop}
+                                    onLoopChange={setLoop}
+                                    automationChannel={channelStates.find(c => c.id === selectedChannelId) ?? null}
+                                    onAutomationChange={updateAutomation}
+                                    sections={sections}
                                 />
                             )}
                         </div>
@@ -476,6 +1320,15 @@ export default function App() {
                         channel={channelStates.find(c => c.id === selectedChannelId)}
                         currentValue={currentSignalValue}
                         onUpdate={updateRefinement}
+                        onUpdateOutput={updateChannelOutput}
+                        onUpdateAutomation={updateAutomation}
+                        expression={rawChannels.find(r => r.id === selectedChannelId)?.expression}
+                        estimate={rawChannels.find(r => r.id === selectedChannelId)?.estimate}
+                        onUpdateExpression={updateDerivedExpression}
+                        onRemoveDerived={removeDerivedChannel}
+                        channelOptions={channelStates.map(ch => ({ value: ch.id, label: ch.label || ch.id }))}
+                        stageInputs={curveStageInputs}
+                        currentFrame={frameAt(currentTime, config.fps)}
                     />
                 </div>
             )}
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+// WebSocket -> OSC/UDP bridge for MotionSignal live streaming.
+//
+//   node bridge/osc-bridge.mjs [--port 8765] [--osc-host 127.0.0.1] [--osc-port 9000]
+//                              [--prefix /motionsignal] [--bundle]
+//
+// Every JSON frame from the app ({ type: "frame", time, channels: { id: value } })
+// becomes one OSC float message per channel at <prefix>/<channel id>, plus
+// <prefix>/time. With --bundle they are sent together as a single OSC bundle.
+// GET / serves a test page that streams synthetic channels through the bridge.
+
+import http from 'node:http';
+import dgram from 'node:dgram';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { channelAddress, encodeMessage, encodeBundle } from './osc.mjs';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i !== -1 && args[i + 1] !== undefined ? args[i + 1] : fallback;
+};
+
+const WS_PORT = Number(option('port', 8765));
+const OSC_HOST = option('osc-host', '127.0.0.1');
+const OSC_PORT = Number(option('osc-port', 9000));
+const PREFIX = option('prefix', '/motionsignal').replace(/\/$/, '');
+const BUNDLE = args.includes('--bundle');
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const TEST_PAGE = fileURLToPath(new URL('./test.html', import.meta.url));
+
+const udp = dgram.createSocket('udp4');
+
+const forward = (frame) => {
+  if (!frame || frame.type !== 'frame' || typeof frame.channels !== 'object') return;
+  const messages = [encodeMessage(`${PREFIX}/time`, [Number(frame.time) || 0])];
+  for (const [id, value] of Object.entries(frame.channels)) {
+    if (typeof value === 'number' && Number.isFinite(value)) messages.push(encodeMessage(channelAddress(PREFIX, id), [value]));
+  }
+  const packets = BUNDLE ? [encodeBundle(messages)] : messages;
+  packets.forEach(packet => udp.send(packet, OSC_PORT, OSC_HOST));
+};
+
+// --- WebSocket framing (RFC 6455), text frames only -------------------------
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const len = payload.length;
+  const head = len < 126 ? Buffer.from([0x80 | opcode, len])
+    : len < 65536 ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 255])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(len)); return b; })()]);
+  return Buffer.concat([head, payload]);
+};
+
+const handleConnection = (socket) => {
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  console.log(`[bridge] client connected (${socket.remoteAddress})`);
+
+  socket.on('data', (chunk) => {
+    pending = Buffer.concat([pending, chunk]);
+    while (pending.length >= 2) {
+      const fin = (pending[0] & 0x80) !== 0;
+      const opcode = pending[0] & 0x0f;
+      const masked = (pending[1] & 0x80) !== 0;
+      let len = pending[1] & 0x7f;
+      let offset = 2;
+      if (len === 126) {
+        if (pending.length < 4) return;
+        len = pending.readUInt16BE(2);
+        offset = 4;
+      } else if (len === 127) {
+        if (pending.length < 10) return;
+        len = Number(pending.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (masked) offset += 4;
+      if (pending.length < offset + len) return;
+
+      const payload = Buffer.from(pending.subarray(offset, offset + len));
+      if (masked) for (let i = 0; i < len; i++) payload[i] ^= pending[maskOffset + (i % 4)];
+      pending = pending.subarray(offset + len);
+
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (!fin) continue;
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        try {
+          forward(JSON.parse(text));
+        } catch {
+          // Ignore malformed frames; the next one will be along shortly
+        }
+      }
+    }
+  });
+
+  socket.on('close', () => console.log('[bridge] client disconnected'));
+  socket.on('error', () => socket.destroy());
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'GET' && (req.url === '/' || req.url === '/test.html')) {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    fs.createReadStream(TEST_PAGE).pipe(res);
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  handleConnection(socket);
+});
+
+server.listen(WS_PORT, () => {
+  console.log(`[bridge] ws://localhost:${WS_PORT} -> osc://${OSC_HOST}:${OSC_PORT}${PREFIX}/<channel>${BUNDLE ? ' (bundled)' : ''}`);
+  console.log(`[bridge] test page: http://localhost:${WS_PORT}/`);
+});
@@ -0,0 +1,24 @@
+#!/usr/bin/env node
+// Loopback OSC receiver for checking the bridge: prints every message it gets.
+//
+//   node bridge/osc-receiver.mjs [--port 9000]
+
+import dgram from 'node:dgram';
+import { decodePacket } from './osc.mjs';
+
+const i = process.argv.indexOf('--port');
+const PORT = Number(i !== -1 ? process.argv[i + 1] : 9000);
+
+const udp = dgram.createSocket('udp4');
+
+udp.on('message', (packet) => {
+  try {
+    decodePacket(packet).forEach(({ address, args }) => {
+      console.log(address.padEnd(40), args.map(a => (typeof a === 'number' ? a.toFixed(4) : a)).join(' '));
+    });
+  } catch (err) {
+    console.error('[receiver] bad packet', err.message);
+  }
+});
+
+udp.bind(PORT, () => console.log(`[receiver] listening on udp://0.0.0.0:${PORT}`));
@@ -0,0 +1,65 @@
+// Minimal OSC 1.0 encoding/decoding: float32 messages and bundles of them.
+
+const pad4 = (n) => (n + 3) & ~3;
+
+const encodeString = (str) => {
+  const bytes = Buffer.from(str, 'utf8');
+  const out = Buffer.alloc(pad4(bytes.length + 1));
+  bytes.copy(out);
+  return out;
+};
+
+const readString = (buf, offset) => {
+  let end = offset;
+  while (end < buf.length && buf[end] !== 0) end++;
+  return { value: buf.toString('utf8', offset, end), next: pad4(end + 1) };
+};
+
+/**
+ * OSC-safe address for a channel id: characters OSC reserves become "_"
+ */
+export const channelAddress = (prefix, id) => `${prefix}/${String(id).replace(/[\s#*,?[\]{}/]/g, '_')}`;
+
+export const encodeMessage = (address, values) => {
+  const args = Buffer.alloc(values.length * 4);
+  values.forEach((v, i) => args.writeFloatBE(v, i * 4));
+  return Buffer.concat([encodeString(address), encodeString(',' + 'f'.repeat(values.length)), args]);
+};
+
+export const encodeBundle = (messages) => {
+  const parts = [encodeString('#bundle'), Buffer.from([0, 0, 0, 0, 0, 0, 0, 1])]; // Timetag "immediately"
+  messages.forEach(msg => {
+    const size = Buffer.alloc(4);
+    size.writeInt32BE(msg.length);
+    parts.push(size, msg);
+  });
+  return Buffer.concat(parts);
+};
+
+/**
+ * Decodes a packet into a flat list of { address, args }
+ */
+export const decodePacket = (buf) => {
+  const head = readString(buf, 0);
+  if (head.value === '#bundle') {
+    const out = [];
+    let offset = head.next + 8;
+    while (offset + 4 <= buf.length) {
+      const size = buf.readInt32BE(offset);
+      out.push(...decodePacket(buf.subarray(offset + 4, offset + 4 + size)));
+      offset += 4 + size;
+    }
+    return out;
+  }
+
+  const tags = readString(buf, head.next);
+  const args = [];
+  let offset = tags.next;
+  for (const tag of tags.value.slice(1)) {
+    if (tag === 'f') { args.push(buf.readFloatBE(offset)); offset += 4; }
+    else if (tag === 'i') { args.push(buf.readInt32BE(offset)); offset += 4; }
+    else if (tag === 's') { const s = readString(buf, offset); args.push(s.value); offset = s.next; }
+    else break; // Unsupported type: stop rather than misread the rest
+  }
+  return [{ address: head.value, args }];
+};
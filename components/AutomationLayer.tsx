@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import { AutomationBlend, AutomationSegment } from '../types';
+import {
+  createSegment,
+  eraseRange,
+  insertKeyframe,
+  insertSegment,
+  strokeToPoints,
+  segmentStart,
+  segmentEnd
+} from '../services/automation';
+
+export type AutomationTool = 'zoom' | 'draw' | 'erase';
+
+interface AutomationLayerProps {
+  domain: [number, number];
+  duration: number;
+  yMax: number; // Top of the chart's value axis
+  segments: AutomationSegment[];
+  color: string;
+  tool: AutomationTool;
+  blend: AutomationBlend; // For new segments
+  fps: number;
+  clickLength: number; // Seconds spanned by a segment created with a single click
+  onChange: (segments: AutomationSegment[], label: string, coalesceKey?: string) => void;
+}
+
+const CLICK_PX = 3;
+
+/**
+ * Draws the selected channel's automation over the chart and, with the draw or
+ * erase tool active, edits it. Draw: drag for a freehand segment, click to add
+ * a keyframe (or a short hold segment on empty ground), drag a keyframe to move
+ * it, double-click one to delete it. Erase: drag across a range.
+ */
+const AutomationLayer: React.FC<AutomationLayerProps> = ({
+  domain, duration, yMax, segments, color, tool, blend, fps, clickLength, onChange
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [stroke, setStroke] = useState<{ t: number; v: number }[] | null>(null);
+  const [erasing, setErasing] = useState<[number, number] | null>(null);
+  const [start, end] = domain;
+  const span = Math.max(1e-6, end - start);
+
+  const xPct = (t: number) => ((t - start) / span) * 100;
+  const yPct = (v: number) => (1 - v / yMax) * 100;
+
+  const toValue = (clientX: number, clientY: number) => {
+    const rect = ref.current!.getBoundingClientRect();
+    const t = start + ((clientX - rect.left) / rect.width) * span;
+    const v = (1 - (clientY - rect.top) / rect.height) * yMax;
+    return { t: Math.max(0, Math.min(duration, t)), v: Math.max(0, Math.min(1, v)) };
+  };
+
+  const track = (onMove: (ev: MouseEvent) => void, onUp: (ev: MouseEvent) => void) => {
+    const move = (ev: MouseEvent) => onMove(ev);
+    const up = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', up);
+      onUp(ev);
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const onMouseDown = (e: React.MouseEvent) => {
+    if (tool === 'zoom') return;
+    e.preventDefault();
+    const origin = { x: e.clientX, y: e.clientY };
+    const first = toValue(e.clientX, e.clientY);
+
+    if (tool === 'erase') {
+      setErasing([first.t, first.t]);
+      track(
+        ev => setErasing([first.t, toValue(ev.clientX, ev.clientY).t]),
+        ev => {
+          const t = toValue(ev.clientX, ev.clientY).t;
+          setErasing(null);
+          if (t !== first.t) onChange(eraseRange(segments, Math.min(first.t, t), Math.max(first.t, t)), 'erase automation');
+        }
+      );
+      return;
+    }
+
+    const points = [first];
+    setStroke(points);
+    track(
+      ev => {
+        points.push(toValue(ev.clientX, ev.clientY));
+        setStroke([...points]);
+      },
+      ev => {
+        setStroke(null);
+        const moved = Math.abs(ev.clientX - origin.x) > CLICK_PX || Math.abs(ev.clientY - origin.y) > CLICK_PX;
+        if (!moved) {
+          const withKey = insertKeyframe(segments, first.t, first.v);
+          onChange(
+            withKey ?? insertSegment(segments, createSegment([first.t, first.v, Math.min(duration, first.t + clickLength), first.v], blend)),
+            withKey ? 'add keyframe' : 'add automation'
+          );
+          return;
+        }
+        onChange(insertSegment(segments, createSegment(strokeToPoints(points, fps), blend)), 'draw automation');
+      }
+    );
+  };
+
+  const moveKey = (seg: AutomationSegment, index: number) => (e: React.MouseEvent) => {
+    if (tool !== 'draw') return;
+    e.preventDefault();
+    e.stopPropagation();
+    const lo = index > 0 ? seg.points[index - 2] + 1e-3 : -Infinity;
+    const hi = index < seg.points.length - 2 ? seg.points[index + 2] - 1e-3 : Infinity;
+    track(
+      ev => {
+        const { t, v } = toValue(ev.clientX, ev.clientY);
+        const points = [...seg.points];
+        points[index] = Math.max(lo, Math.min(hi, t));
+        points[index + 1] = v;
+        onChange(segments.map(s => s.id === seg.id ? { ...s, points } : s), 'move keyframe', `automation:${seg.id}:${index}`);
+      },
+      () => {}
+    );
+  };
+
+  const removeKey = (seg: AutomationSegment, index: number) => (e: React.MouseEvent) => {
+    if (tool !== 'draw') return;
+    e.stopPropagation();
+    const points = seg.points.filter((_, i) => i !== index && i !== index + 1);
+    onChange(
+      points.length < 4 ? segments.filter(s => s.id !== seg.id) : segments.map(s => s.id === seg.id ? { ...s, points } : s),
+      'delete keyframe'
+    );
+  };
+
+  const polyline = (pairs: number[]) => {
+    const out: string[] = [];
+    for (let i = 0; i < pairs.length; i += 2) out.push(`${xPct(pairs[i])},${yPct(pairs[i + 1])}`);
+    return out.join(' ');
+  };
+
+  return (
+    <div
+        ref={ref}
+        onMouseDown={onMouseDown}
+        className={`absolute ${tool === 'zoom' ? 'pointer-events-none' : tool === 'draw' ? 'cursor-crosshair' : 'cursor-col-resize'}`}
+        style={{ top: 10, right: 10, left: 0, bottom: 0 }}
+    >
+      {segments.map(seg => (
+        <div
+            key={seg.id}
+            className="absolute top-0 bottom-0 bg-white/5 border-x border-white/10 pointer-events-none"
+            style={{ left: `${xPct(segmentStart(seg))}%`, width: `${xPct(segmentEnd(seg)) - xPct(segmentStart(seg))}%` }}
+        >
+          <span className="absolute top-0.5 left-1 text-[9px] font-mono text-zinc-500 uppercase">{seg.blend}</span>
+        </div>
+      ))}
+      {erasing && (
+        <div
+            className="absolute top-0 bottom-0 bg-red-500/15 pointer-events-none"
+            style={{ left: `${xPct(Math.min(...erasing))}%`, width: `${Math.abs(xPct(erasing[1]) - xPct(erasing[0]))}%` }}
+        />
+      )}
+      <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none">
+        {segments.map(seg => (
+          <polyline
+              key={seg.id}
+              points={polyline(seg.points)}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              strokeDasharray="4 3"
+              vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {stroke && (
+          <polyline
+              points={polyline(stroke.flatMap(p => [p.t, p.v]))}
+              fill="none"
+              stroke="#fff"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      {segments.flatMap(seg => {
+        const dots = [];
+        for (let i = 0; i < seg.points.length; i += 2) {
+          dots.push(
+            <div
+                key={`${seg.id}-${i}`}
+                onMouseDown={moveKey(seg, i)}
+                onDoubleClick={removeKey(seg, i)}
+                className={`absolute w-2 h-2 -ml-1 -mt-1 rounded-full border border-zinc-950 ${tool === 'draw' ? 'cursor-move' : 'pointer-events-none'}`}
+                style={{ left: `${xPct(seg.points[i])}%`, top: `${yPct(seg.points[i + 1])}%`, backgroundColor: color }}
+            />
+          );
+        }
+        return dots;
+      })}
+    </div>
+  );
+};
+
+export default AutomationLayer;
@@ -0,0 +1,91 @@
+import React from 'react';
+import { AudioFile, FrequencyBand } from '../types';
+import { BAND_PRESETS } from '../constants';
+import { createBandPreset, bandIdFromName } from '../services/bands';
+import { Plus, X } from 'lucide-react';
+
+interface BandEditorProps {
+  file: AudioFile;
+  onChange: (id: string, bands: FrequencyBand[]) => void;
+}
+
+const BandEditor: React.FC<BandEditorProps> = ({ file, onChange }) => {
+  const applyPreset = (presetId: string) => {
+    const preset = BAND_PRESETS.find(p => p.id === presetId);
+    onChange(file.id, preset ? createBandPreset(preset.scale, preset.count) : []);
+  };
+
+  const updateBand = (idx: number, patch: Partial<FrequencyBand>) => {
+    onChange(file.id, file.bands.map((b, i) => i === idx ? { ...b, ...patch } : b));
+  };
+
+  const renameBand = (idx: number, name: string) => {
+    const others = file.bands.filter((_, i) => i !== idx);
+    updateBand(idx, { name, id: bandIdFromName(name, others) });
+  };
+
+  const addBand = () => {
+    const name = `Band ${file.bands.length + 1}`;
+    onChange(file.id, [...file.bands, { id: bandIdFromName(name, file.bands), name, lowHz: 40, highHz: 100 }]);
+  };
+
+  const removeBand = (idx: number) => {
+    onChange(file.id, file.bands.filter((_, i) => i !== idx));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-zinc-300 truncate">{file.name}</span>
+        <select
+          value=""
+          onChange={(e) => applyPreset(e.target.value)}
+          className="bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-zinc-400 outline-none focus:border-cyan-500"
+        >
+          <option value="" disabled>Preset...</option>
+          {BAND_PRESETS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          <option value="none">Clear</option>
+        </select>
+      </div>
+
+      {file.bands.length > 0 && (
+        <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+          {file.bands.map((band, idx) => (
+            <div key={idx} className="flex items-center gap-1">
+              <input
+                value={band.name}
+                onChange={(e) => renameBand(idx, e.target.value)}
+                className="flex-1 min-w-0 bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-white outline-none focus:border-cyan-500"
+              />
+              <input
+                type="number"
+                value={band.lowHz}
+                onChange={(e) => updateBand(idx, { lowHz: parseFloat(e.target.value) || 0 })}
+                className="w-16 bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-white outline-none focus:border-cyan-500"
+              />
+              <input
+                type="number"
+                value={band.highHz}
+                onChange={(e) => updateBand(idx, { highHz: parseFloat(e.target.value) || 0 })}
+                className="w-16 bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-white outline-none focus:border-cyan-500"
+              />
+              <button onClick={() => removeBand(idx)} className="p-0.5 text-zinc-600 hover:text-red-400">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={addBand}
+        className="flex items-center gap-1 text-[10px] text-zinc-500 hover:text-cyan-400 font-mono"
+      >
+        <Plus size={10} />
+        ADD BAND
+      </button>
+    </div>
+  );
+};
+
+export default BandEditor;
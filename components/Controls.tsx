@@ -1,12 +1,29 @@
 
 import React from 'react';
-import { ChannelState, RefinementSettings } from '../types';
+import { AutomationBlend, AutomationSegment, ChannelState, Processor, ProcessorParams, ProcessorType, RefinementChain } from '../types';
+import { PROCESSORS, PROCESSOR_TYPES, ParamSpec, createProcessor } from '../services/processors';
+import DerivedChannelForm from './DerivedChannelForm';
+import CurveEditor from './CurveEditor';
+import { CurveInterpolation } from '../services/curve';
+import { AUTOMATION_BLENDS, segmentStart, segmentEnd } from '../services/automation';
+import { ChevronUp, ChevronDown, Power, X } from 'lucide-react';
+
+export type ChannelOutputPatch = Partial<Pick<ChannelState, 'label' | 'color' | 'outputMin' | 'outputMax'>>;
 
 interface ControlsProps {
   selectedChannelId: string | null;
   channel: ChannelState | undefined;
   currentValue: number; // For visual feedback
-  onUpdate: (id: string, settings: RefinementSettings) => void;
+  onUpdate: (id: string, settings: RefinementChain) => void;
+  onUpdateOutput: (id: string, patch: ChannelOutputPatch) => void;
+  onUpdateAutomation: (id: string, segments: AutomationSegment[], label: string) => void;
+  expression?: string; // Set for derived channels
+  estimate?: string; // Whole-source result of the raw channel, e.g. the key
+  onUpdateExpression: (id: string, expression: string) => void; // Throws on a bad expression
+  onRemoveDerived: (id: string) => void;
+  channelOptions: { value: string; label: string }[]; // Choices for 'channel' params
+  stageInputs: Record<string, Float32Array>; // Per processor id: the signal entering it (curve processors only)
+  currentFrame: number;
 }
 
 const Slider: React.FC<{ 
@@ -34,7 +51,121 @@ const Slider: React.FC<{
   </div>
 );
 
-const Controls: React.FC<ControlsProps> = ({ selectedChannelId, channel, currentValue, onUpdate }) => {
+const ParamControl: React.FC<{
+    spec: ParamSpec;
+    value: ProcessorParams[string];
+    inputId: string;
+    channelOptions: { value: string; label: string }[];
+    onChange: (val: ProcessorParams[string]) => void;
+}> = ({ spec, value, inputId, channelOptions, onChange }) => {
+  if (spec.kind === 'number') {
+    return (
+      <Slider
+        label={spec.label}
+        value={value as number}
+        min={spec.min} max={spec.max} step={spec.step}
+        onChange={onChange}
+      />
+    );
+  }
+
+  if (spec.kind === 'boolean') {
+    return (
+      <div className="flex items-center gap-2 mb-4">
+        <input
+            type="checkbox"
+            id={inputId}
+            checked={value as boolean}
+            onChange={(e) => onChange(e.target.checked)}
+            className="rounded bg-zinc-700 border-zinc-600 text-cyan-500 focus:ring-0"
+        />
+        <label htmlFor={inputId} className="text-xs text-zinc-300 font-mono">{spec.label}</label>
+      </div>
+    );
+  }
+
+  const options = spec.kind === 'channel' ? [{ value: '', label: '(none)' }, ...channelOptions] : spec.options;
+  return (
+    <div className="flex flex-col space-y-1 mb-4">
+      <span className="text-xs text-zinc-400 font-mono">{spec.label}</span>
+      <select
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          className="bg-zinc-950 border border-zinc-800 rounded p-1 text-xs font-mono text-zinc-200 outline-none focus:border-cyan-500"
+      >
+        {options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+      </select>
+    </div>
+  );
+};
+
+const ProcessorCard: React.FC<{
+    processor: Processor;
+    isFirst: boolean;
+    isLast: boolean;
+    onChange: (processor: Processor) => void;
+    onMove: (dir: -1 | 1) => void;
+    onRemove: () => void;
+    channelOptions: { value: string; label: string }[];
+    liveInput?: number;
+}> = ({ processor, isFirst, isLast, onChange, onMove, onRemove, channelOptions, liveInput }) => {
+  const def = PROCESSORS[processor.type];
+  return (
+    <div className={`rounded border border-zinc-800 bg-zinc-950/50 mb-2 ${processor.bypass ? 'opacity-50' : ''}`}>
+      <div className="flex items-center gap-1 px-2 py-1.5 border-b border-zinc-800">
+        <button
+            onClick={() => onChange({ ...processor, bypass: !processor.bypass })}
+            title={processor.bypass ? 'Enable' : 'Bypass'}
+            className={`p-0.5 rounded ${processor.bypass ? 'text-zinc-600' : 'text-cyan-500'}`}
+        >
+          <Power size={12} />
+        </button>
+        <span className="flex-1 text-xs font-bold text-zinc-300 uppercase tracking-wider truncate">{def.label}</span>
+        <button onClick={() => onMove(-1)} disabled={isFirst} className="p-0.5 text-zinc-500 hover:text-zinc-200 disabled:opacity-30">
+          <ChevronUp size={12} />
+        </button>
+        <button onClick={() => onMove(1)} disabled={isLast} className="p-0.5 text-zinc-500 hover:text-zinc-200 disabled:opacity-30">
+          <ChevronDown size={12} />
+        </button>
+        <button onClick={onRemove} className="p-0.5 text-zinc-500 hover:text-red-400">
+          <X size={12} />
+        </button>
+      </div>
+      {def.params.length > 0 && (
+        <div className="px-3 pt-3">
+          {def.params.map(spec => spec.kind === 'curve' ? (
+            <CurveEditor
+                key={spec.key}
+                points={processor.params[spec.key] as number[]}
+                interpolation={processor.params.interpolation as CurveInterpolation}
+                liveInput={liveInput}
+                onChange={(points, interpolation) => onChange({
+                  ...processor,
+                  params: { ...processor.params, [spec.key]: points, interpolation },
+                })}
+            />
+          ) : (
+            <ParamControl
+                key={spec.key}
+                spec={spec}
+                value={processor.params[spec.key]}
+                inputId={`${processor.id}-${spec.key}`}
+                channelOptions={channelOptions}
+                onChange={(v) => onChange({ ...processor, params: { ...processor.params, [spec.key]: v } })}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded p-1 text-xs font-mono text-zinc-200 outline-none focus:border-cyan-500";
+
+const Controls: React.FC<ControlsProps> = ({
+  selectedChannelId, channel, currentValue, onUpdate, onUpdateOutput, onUpdateAutomation, expression, estimate, onUpdateExpression, onRemoveDerived,
+  channelOptions, stageInputs, currentFrame
+}) => {
   if (!selectedChannelId || !channel) {
     return (
       <div className="h-full flex items-center justify-center text-zinc-500 text-sm font-mono p-4 border-l border-zinc-800 bg-zinc-900/50 w-80 flex-shrink-0">
@@ -43,16 +174,38 @@ const Controls: React.FC<ControlsProps> = ({ selectedChannelId, channel, current
     );
   }
 
-  const update = (key: keyof RefinementSettings, value: any) => {
-    onUpdate(selectedChannelId, { ...channel.settings, [key]: value });
+  const chain = channel.settings;
+  const commit = (next: RefinementChain) => onUpdate(selectedChannelId, next);
+
+  const replaceAt = (idx: number, processor: Processor) => {
+    commit(chain.map((p, i) => i === idx ? processor : p));
+  };
+
+  const move = (idx: number, dir: -1 | 1) => {
+    const target = idx + dir;
+    if (target < 0 || target >= chain.length) return;
+    const next = [...chain];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    commit(next);
   };
 
+  const addProcessor = (type: ProcessorType) => {
+    commit([...chain, createProcessor(type)]);
+  };
+
+  const setOutput = (patch: ChannelOutputPatch) => onUpdateOutput(selectedChannelId, patch);
+
+  const automation = channel.automation;
+  const setBlend = (segId: string, blend: AutomationBlend) =>
+    onUpdateAutomation(selectedChannelId, automation.map(s => s.id === segId ? { ...s, blend } : s), `automation blend ${blend}`);
+
   return (
     <div className="h-full bg-zinc-900 border-l border-zinc-800 flex flex-col w-80 flex-shrink-0">
         <div className="p-4 border-b border-zinc-800">
             <h3 className="text-sm font-bold text-zinc-100 mb-4 flex items-center gap-2">
                 <div className="w-3 h-3 rounded-full" style={{ backgroundColor: channel.color }}></div>
-                <span className="truncate">{channel.id.toUpperCase()}</span>
+                <span className="truncate">{(channel.label || channel.id).toUpperCase()}</span>
+                {estimate && <span className="ml-auto text-[10px] font-mono text-amber-400 flex-shrink-0">{estimate}</span>}
             </h3>
 
             {/* Signal Preview Box */}
@@ -74,58 +227,131 @@ const Controls: React.FC<ControlsProps> = ({ selectedChannelId, channel, current
         </div>
 
         <div className="flex-1 overflow-y-auto p-4 pb-32">
-            <section className="mb-6">
-                <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">Dynamics</h4>
-                <Slider 
-                    label="Gain" 
-                    value={channel.settings.gain} 
-                    min={0} max={5} step={0.1} 
-                    onChange={(v) => update('gain', v)} 
-                />
-                <Slider 
-                    label="Offset" 
-                    value={channel.settings.offset} 
-                    min={-1} max={1} step={0.05} 
-                    onChange={(v) => update('offset', v)} 
-                />
-                 <Slider 
-                    label="Gate Threshold" 
-                    value={channel.settings.gate} 
-                    min={0} max={1} step={0.01} 
-                    onChange={(v) => update('gate', v)} 
-                />
-            </section>
+            {expression !== undefined && (
+                <section className="mb-6">
+                    <div className="flex items-center justify-between mb-3">
+                        <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Expression</h4>
+                        <button
+                            onClick={() => onRemoveDerived(selectedChannelId)}
+                            className="text-[10px] font-mono text-zinc-500 hover:text-red-400"
+                        >
+                            DELETE CHANNEL
+                        </button>
+                    </div>
+                    <DerivedChannelForm
+                        key={selectedChannelId}
+                        initialExpression={expression}
+                        submitLabel="Apply"
+                        showName={false}
+                        onSubmit={(_, expr) => onUpdateExpression(selectedChannelId, expr)}
+                    />
+                </section>
+            )}
 
             <section>
-                <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">Shaping</h4>
-                <Slider 
-                    label="Smooth (Attack/Release)" 
-                    value={channel.settings.smooth} 
-                    min={0} max={1} step={0.01} 
-                    onChange={(v) => update('smooth', v)} 
-                />
-                
-                <div className="flex flex-col gap-3 mt-4">
-                    <div className="flex items-center gap-2">
-                        <input 
-                            type="checkbox" 
-                            id="clip" 
-                            checked={channel.settings.clip} 
-                            onChange={(e) => update('clip', e.target.checked)}
-                            className="rounded bg-zinc-700 border-zinc-600 text-cyan-500 focus:ring-0"
-                        />
-                        <label htmlFor="clip" className="text-xs text-zinc-300 font-mono">Soft Clip (0-1)</label>
+                <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">Processing Chain</h4>
+                {chain.map((processor, idx) => (
+                    <ProcessorCard
+                        key={processor.id}
+                        processor={processor}
+                        isFirst={idx === 0}
+                        isLast={idx === chain.length - 1}
+                        onChange={(p) => replaceAt(idx, p)}
+                        onMove={(dir) => move(idx, dir)}
+                        onRemove={() => commit(chain.filter((_, i) => i !== idx))}
+                        channelOptions={channelOptions.filter(o => o.value !== selectedChannelId)}
+                        liveInput={stageInputs[processor.id]?.[currentFrame]}
+                    />
+                ))}
+
+                <select
+                    value=""
+                    onChange={(e) => addProcessor(e.target.value as ProcessorType)}
+                    className="w-full mt-2 bg-zinc-950 border border-dashed border-zinc-700 rounded p-2 text-xs font-mono text-zinc-400 outline-none focus:border-cyan-500"
+                >
+                    <option value="" disabled>+ Add processor...</option>
+                    {PROCESSOR_TYPES.map(type => <option key={type} value={type}>{PROCESSORS[type].label}</option>)}
+                </select>
+            </section>
+
+            <section className="mt-6">
+                <div className="flex items-center justify-between mb-3">
+                    <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Automation</h4>
+                    {automation.length > 0 && (
+                        <button
+                            onClick={() => onUpdateAutomation(selectedChannelId, [], 'clear automation')}
+                            className="text-[10px] text-zinc-500 hover:text-red-400 font-mono"
+                        >
+                            CLEAR
+                        </button>
+                    )}
+                </div>
+                {automation.length === 0 ? (
+                    <p className="text-[10px] text-zinc-600">Use DRAW on the timeline to paint overrides onto this channel.</p>
+                ) : (
+                    <div className="space-y-1">
+                        {automation.map(seg => (
+                            <div key={seg.id} className="flex items-center gap-2 bg-zinc-950 border border-zinc-800 rounded px-2 py-1">
+                                <span className="flex-1 text-[10px] font-mono text-zinc-400">
+                                    {segmentStart(seg).toFixed(2)}s - {segmentEnd(seg).toFixed(2)}s · {seg.points.length / 2} keys
+                                </span>
+                                <select
+                                    value={seg.blend}
+                                    onChange={(e) => setBlend(seg.id, e.target.value as AutomationBlend)}
+                                    className="bg-zinc-900 border border-zinc-800 rounded px-1 text-[10px] font-mono text-zinc-300 outline-none focus:border-cyan-500"
+                                >
+                                    {AUTOMATION_BLENDS.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+                                </select>
+                                <button
+                                    onClick={() => onUpdateAutomation(selectedChannelId, automation.filter(s => s.id !== seg.id), 'delete automation')}
+                                    className="text-zinc-600 hover:text-red-400"
+                                >
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ))}
                     </div>
-                     <div className="flex items-center gap-2">
-                        <input 
-                            type="checkbox" 
-                            id="invert" 
-                            checked={channel.settings.invert} 
-                            onChange={(e) => update('invert', e.target.checked)}
-                            className="rounded bg-zinc-700 border-zinc-600 text-cyan-500 focus:ring-0"
+                )}
+            </section>
+
+            <section className="mt-6">
+                <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-3">Output</h4>
+                <div className="flex gap-2 mb-3">
+                    <input
+                        type="color"
+                        value={channel.color}
+                        onChange={(e) => setOutput({ color: e.target.value })}
+                        title="Channel color"
+                        className="w-7 h-7 bg-transparent border-0 p-0 cursor-pointer flex-shrink-0"
+                    />
+                    <input
+                        type="text"
+                        value={channel.label}
+                        placeholder={channel.id}
+                        onChange={(e) => setOutput({ label: e.target.value })}
+                        title="Export label"
+                        className={inputClass}
+                    />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="text-[10px] text-zinc-500 font-mono">
+                        MIN (at 0)
+                        <input
+                            type="number"
+                            value={channel.outputMin}
+                            onChange={(e) => setOutput({ outputMin: parseFloat(e.target.value) || 0 })}
+                            className={inputClass}
                         />
-                        <label htmlFor="invert" className="text-xs text-zinc-300 font-mono">Invert Output</label>
-                    </div>
+                    </label>
+                    <label className="text-[10px] text-zinc-500 font-mono">
+                        MAX (at 1)
+                        <input
+                            type="number"
+                            value={channel.outputMax}
+                            onChange={(e) => setOutput({ outputMax: parseFloat(e.target.value) || 0 })}
+                            className={inputClass}
+                        />
+                    </label>
                 </div>
             </section>
         </div>
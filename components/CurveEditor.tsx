@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { createCurve, toPoints, fromPoints, CurveInterpolation, CURVE_PRESETS } from '../services/curve';
+
+interface CurveEditorProps {
+  points: number[];
+  interpolation: CurveInterpolation;
+  liveInput?: number; // Value entering the curve at the current frame
+  onChange: (points: number[], interpolation: CurveInterpolation) => void;
+}
+
+const SAMPLES = 96;
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Square 0-1 response editor. Drag points; double-click empty space to add a
+ * point, double-click a point to remove it. End points only move vertically.
+ */
+const CurveEditor: React.FC<CurveEditorProps> = ({ points, interpolation, liveInput, onChange }) => {
+  const ref = useRef<SVGSVGElement>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const pts = toPoints(points);
+  const curve = createCurve(points, interpolation);
+
+  const toValue = (clientX: number, clientY: number) => {
+    const rect = ref.current!.getBoundingClientRect();
+    return { x: clamp01((clientX - rect.left) / rect.width), y: clamp01(1 - (clientY - rect.top) / rect.height) };
+  };
+
+  const startDrag = (index: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDragging(index);
+    const onMove = (ev: MouseEvent) => {
+      const { x, y } = toValue(ev.clientX, ev.clientY);
+      const next = pts.map(p => ({ ...p }));
+      const isEnd = index === 0 || index === next.length - 1;
+      // Keep x between neighbours so dragging never reorders points
+      next[index] = {
+        x: isEnd ? next[index].x : Math.max(next[index - 1].x + 0.001, Math.min(next[index + 1].x - 0.001, x)),
+        y,
+      };
+      onChange(fromPoints(next), interpolation);
+    };
+    const onUp = () => {
+      setDragging(null);
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  const addPoint = (e: React.MouseEvent) => {
+    const { x, y } = toValue(e.clientX, e.clientY);
+    onChange(fromPoints([...pts, { x, y }]), interpolation);
+  };
+
+  const removePoint = (index: number) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (index === 0 || index === pts.length - 1) return;
+    onChange(fromPoints(pts.filter((_, i) => i !== index)), interpolation);
+  };
+
+  let path = '';
+  for (let i = 0; i <= SAMPLES; i++) {
+    const x = i / SAMPLES;
+    path += `${i === 0 ? 'M' : 'L'}${x * 100},${(1 - clamp01(curve(x))) * 100}`;
+  }
+
+  const live = liveInput === undefined ? null : clamp01(liveInput);
+
+  return (
+    <div className="mb-4">
+      <svg
+          ref={ref}
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+          onDoubleClick={addPoint}
+          className="w-full aspect-square bg-zinc-950 border border-zinc-800 rounded cursor-crosshair select-none"
+      >
+        {[25, 50, 75].map(g => (
+          <g key={g} stroke="#27272a" strokeWidth={0.5}>
+            <line x1={g} y1={0} x2={g} y2={100} />
+            <line x1={0} y1={g} x2={100} y2={g} />
+          </g>
+        ))}
+        <line x1={0} y1={100} x2={100} y2={0} stroke="#3f3f46" strokeWidth={0.5} strokeDasharray="2 2" />
+        <path d={path} fill="none" stroke="#06b6d4" strokeWidth={1.2} vectorEffect="non-scaling-stroke" />
+        {live !== null && (
+          <g pointerEvents="none">
+            <line x1={live * 100} y1={0} x2={live * 100} y2={100} stroke="#f59e0b" strokeWidth={0.4} strokeOpacity={0.5} />
+            <circle cx={live * 100} cy={(1 - clamp01(curve(live))) * 100} r={2.2} fill="#f59e0b" />
+          </g>
+        )}
+        {pts.map((p, i) => (
+          <circle
+              key={i}
+              cx={p.x * 100}
+              cy={(1 - p.y) * 100}
+              r={dragging === i ? 3.2 : 2.6}
+              fill={dragging === i ? '#fff' : '#18181b'}
+              stroke="#e4e4e7"
+              strokeWidth={0.8}
+              className="cursor-move"
+              onMouseDown={startDrag(i)}
+              onDoubleClick={removePoint(i)}
+          />
+        ))}
+      </svg>
+      <select
+          value=""
+          onChange={(e) => {
+            const preset = CURVE_PRESETS[e.target.value];
+            if (preset) onChange(preset.points, preset.interpolation);
+          }}
+          className="w-full mt-2 bg-zinc-950 border border-zinc-800 rounded p-1 text-xs font-mono text-zinc-400 outline-none focus:border-cyan-500"
+      >
+        <option value="" disabled>Preset...</option>
+        {Object.entries(CURVE_PRESETS).map(([key, preset]) => <option key={key} value={key}>{preset.label}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default CurveEditor;
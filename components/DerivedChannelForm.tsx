@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+
+interface DerivedChannelFormProps {
+  initialName?: string;
+  initialExpression?: string;
+  submitLabel: string;
+  showName: boolean; // Names are fixed once the channel exists
+  onSubmit: (name: string, expression: string) => void; // Throws to report a bad expression
+  onCancel?: () => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded p-1 text-xs font-mono text-zinc-200 outline-none focus:border-cyan-500";
+
+/**
+ * Name + expression editor for derived channels. Errors from onSubmit are
+ * shown inline.
+ */
+const DerivedChannelForm: React.FC<DerivedChannelFormProps> = ({
+  initialName = '', initialExpression = '', submitLabel, showName, onSubmit, onCancel
+}) => {
+  const [name, setName] = useState(initialName);
+  const [expression, setExpression] = useState(initialExpression);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = () => {
+    try {
+      onSubmit(name.trim(), expression.trim());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {showName && (
+        <input
+            type="text"
+            value={name}
+            placeholder="name"
+            onChange={(e) => setName(e.target.value)}
+            className={inputClass}
+        />
+      )}
+      <textarea
+          value={expression}
+          placeholder="max(low, transient) * bar"
+          rows={3}
+          spellCheck={false}
+          onChange={(e) => { setExpression(e.target.value); setError(null); }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) submit();
+          }}
+          className={`${inputClass} resize-y ${error ? 'border-red-500/60' : ''}`}
+      />
+      {error && <p className="text-[10px] font-mono text-red-400">{error}</p>}
+      <p className="text-[10px] text-zinc-600">
+        + - * / % &lt; &gt; ?: · min max abs clamp lerp step smoothstep pow sqrt sin cos · time frame beat bar · ch("id") raw("id")
+      </p>
+      <div className="flex gap-2">
+        <button
+            onClick={submit}
+            disabled={!expression.trim() || (showName && !name.trim())}
+            className="flex-1 px-3 py-1 bg-cyan-900/30 text-cyan-400 border border-cyan-900/50 rounded hover:bg-cyan-900/50 transition-colors text-xs font-medium disabled:opacity-40"
+        >
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button onClick={onCancel} className="px-3 py-1 text-zinc-400 hover:text-zinc-200 text-xs">
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DerivedChannelForm;
@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { ChannelState, RawChannelData } from '../types';
+import { AeScriptOptions } from '../services/exporters/aeScript';
+import { MidiLaneMode, MidiLaneOptions, DEFAULT_MIDI_CC, DEFAULT_MIDI_NOTE } from '../services/exporters/midi';
+import { BlenderScriptOptions } from '../services/exporters/blender';
+import { ExportFormat, EXPORTERS } from '../services/exporters';
+import { Download, ChevronDown, Clipboard } from 'lucide-react';
+
+interface ExportPanelProps {
+  aeOptions: AeScriptOptions;
+  onAeOptionsChange: (options: AeScriptOptions) => void;
+  onExport: (format: ExportFormat) => void;
+  onCopy: (format: ExportFormat) => void;
+  channels: ChannelState[];
+  rawChannels: RawChannelData[];
+  midiLanes: Record<string, MidiLaneOptions>;
+  onMidiLanesChange: (lanes: Record<string, MidiLaneOptions>) => void;
+  blenderOptions: BlenderScriptOptions;
+  onBlenderOptionsChange: (options: BlenderScriptOptions) => void;
+}
+
+const smallButtonClass = "px-3 py-1.5 bg-cyan-900/30 text-cyan-400 border border-cyan-900/50 rounded hover:bg-cyan-900/50 transition-colors text-xs font-medium disabled:opacity-40";
+
+const TABLE_FORMATS: ExportFormat[] = ['csv', 'tsv', 'nuke', 'json'];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded p-1 text-xs font-mono text-zinc-200 outline-none focus:border-cyan-500";
+
+const ExportPanel: React.FC<ExportPanelProps> = ({
+  aeOptions, onAeOptionsChange, onExport, onCopy,
+  channels, rawChannels, midiLanes, onMidiLanesChange,
+  blenderOptions, onBlenderOptionsChange
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const laneFor = (id: string): MidiLaneOptions => midiLanes[id] ?? { mode: 'off', number: DEFAULT_MIDI_CC, midiChannel: 1 };
+  const countMode = (mode: MidiLaneMode) => channels.filter(ch => laneFor(ch.id).mode === mode).length;
+  const setLane = (id: string, patch: Partial<MidiLaneOptions>) => {
+    const lane = { ...laneFor(id), ...patch };
+    // Switching kind resets the number to something sensible for that kind
+    if (patch.mode === 'note') lane.number = DEFAULT_MIDI_NOTE;
+    if (patch.mode === 'cc') lane.number = DEFAULT_MIDI_CC + countMode('cc') % 12;
+    onMidiLanesChange({ ...midiLanes, [id]: lane });
+  };
+  const hasEvents = (id: string) => !!rawChannels.find(r => r.id === id)?.events;
+  const midiCount = channels.length - countMode('off');
+
+  return (
+    <div className="relative">
+      <div className="flex">
+        <button
+            onClick={() => onExport('ae')}
+            className="flex items-center gap-2 px-4 py-1.5 bg-cyan-900/30 text-cyan-400 border border-cyan-900/50 rounded-l hover:bg-cyan-900/50 transition-colors text-sm font-medium"
+        >
+            <Download size={16} />
+            {aeOptions.mode === 'keyframes' ? 'Export Baked Script' : 'Export JSON + Script'}
+        </button>
+        <button
+            onClick={() => setOpen(!open)}
+            className="px-2 bg-cyan-900/30 text-cyan-400 border border-l-0 border-cyan-900/50 rounded-r hover:bg-cyan-900/50 transition-colors"
+        >
+            <ChevronDown size={14} />
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl p-4 z-30 space-y-4 max-h-[80vh] overflow-y-auto">
+          <section>
+            <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">After Effects</h4>
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 text-xs text-zinc-300 font-mono">
+                <input
+                    type="radio"
+                    checked={aeOptions.mode === 'expression'}
+                    onChange={() => onAeOptionsChange({ ...aeOptions, mode: 'expression' })}
+                />
+                Expressions (reads JSON)
+              </label>
+              <label className="flex items-center gap-2 text-xs text-zinc-300 font-mono">
+                <input
+                    type="radio"
+                    checked={aeOptions.mode === 'keyframes'}
+                    onChange={() => onAeOptionsChange({ ...aeOptions, mode: 'keyframes' })}
+                />
+                Baked keyframes (self-contained)
+              </label>
+            </div>
+            {aeOptions.mode === 'keyframes' && (
+              <div className="flex flex-col space-y-1 mt-3">
+                <div className="flex justify-between text-xs text-zinc-400 font-mono">
+                  <span>Reduction tolerance</span>
+                  <span>{(aeOptions.tolerance * 100).toFixed(1)}%</span>
+                </div>
+                <input
+                    type="range"
+                    min={0}
+                    max={0.05}
+                    step={0.001}
+                    value={aeOptions.tolerance}
+                    onChange={(e) => onAeOptionsChange({ ...aeOptions, tolerance: parseFloat(e.target.value) })}
+                    className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400"
+                />
+                <p className="text-[10px] text-zinc-600">0% is lossless: only keys lying exactly on a straight line are dropped</p>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-2 mt-3">
+              <label className="text-[10px] text-zinc-500 font-mono">
+                START (s)
+                <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={aeOptions.layerOffset}
+                    onChange={(e) => onAeOptionsChange({ ...aeOptions, layerOffset: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className={inputClass}
+                />
+              </label>
+              <label className="text-[10px] text-zinc-500 font-mono">
+                WIDTH
+                <input
+                    type="number"
+                    min={16}
+                    value={aeOptions.compWidth}
+                    onChange={(e) => onAeOptionsChange({ ...aeOptions, compWidth: Math.max(16, parseInt(e.target.value) || 16) })}
+                    className={inputClass}
+                />
+              </label>
+              <label className="text-[10px] text-zinc-500 font-mono">
+                HEIGHT
+                <input
+                    type="number"
+                    min={16}
+                    value={aeOptions.compHeight}
+                    onChange={(e) => onAeOptionsChange({ ...aeOptions, compHeight: Math.max(16, parseInt(e.target.value) || 16) })}
+                    className={inputClass}
+                />
+              </label>
+            </div>
+            <p className="text-[10px] text-zinc-600 mt-1">Size applies only when no comp is active. Re-running updates existing controllers.</p>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">MIDI</h4>
+            <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+              {channels.map(ch => {
+                const lane = laneFor(ch.id);
+                return (
+                  <div key={ch.id} className="flex items-center gap-1">
+                    <span className="flex-1 text-[10px] font-mono text-zinc-400 truncate" title={ch.id}>{ch.label || ch.id}</span>
+                    <select
+                        value={lane.mode}
+                        onChange={(e) => setLane(ch.id, { mode: e.target.value as MidiLaneMode })}
+                        className="bg-zinc-950 border border-zinc-800 rounded p-0.5 text-[10px] font-mono text-zinc-200 outline-none"
+                    >
+                      <option value="off">off</option>
+                      <option value="cc">CC</option>
+                      {hasEvents(ch.id) && <option value="note">note</option>}
+                    </select>
+                    {lane.mode !== 'off' && (
+                      <>
+                        <input
+                            type="number"
+                            min={0}
+                            max={127}
+                            value={lane.number}
+                            title={lane.mode === 'cc' ? 'CC number' : 'Note number'}
+                            onChange={(e) => setLane(ch.id, { number: Math.max(0, Math.min(127, parseInt(e.target.value) || 0)) })}
+                            className="w-12 bg-zinc-950 border border-zinc-800 rounded p-0.5 text-[10px] font-mono text-zinc-200 outline-none"
+                        />
+                        <input
+                            type="number"
+                            min={1}
+                            max={16}
+                            value={lane.midiChannel}
+                            title="MIDI channel"
+                            onChange={(e) => setLane(ch.id, { midiChannel: Math.max(1, Math.min(16, parseInt(e.target.value) || 1)) })}
+                            className="w-10 bg-zinc-950 border border-zinc-800 rounded p-0.5 text-[10px] font-mono text-zinc-200 outline-none"
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <button
+                onClick={() => onExport('midi')}
+                disabled={midiCount === 0}
+                className={`w-full mt-2 ${smallButtonClass}`}
+            >
+              Export .mid ({midiCount} {midiCount === 1 ? 'track' : 'tracks'})
+            </button>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Blender</h4>
+            <div className="flex flex-col space-y-1">
+              <div className="flex justify-between text-xs text-zinc-400 font-mono">
+                <span>Reduction tolerance</span>
+                <span>{(blenderOptions.tolerance * 100).toFixed(1)}%</span>
+              </div>
+              <input
+                  type="range"
+                  min={0}
+                  max={0.05}
+                  step={0.001}
+                  value={blenderOptions.tolerance}
+                  onChange={(e) => onBlenderOptionsChange({ ...blenderOptions, tolerance: parseFloat(e.target.value) })}
+                  className="w-full h-1 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-cyan-500 hover:accent-cyan-400"
+              />
+            </div>
+            <button
+                onClick={() => onExport('blender')}
+                disabled={channels.length === 0}
+                className={`w-full mt-2 ${smallButtonClass}`}
+            >
+              Export Blender .py
+            </button>
+            <p className="text-[10px] text-zinc-600 mt-1">Keys custom properties on the active object, or a MOTION_CONTROLLER empty.</p>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider mb-2">Data</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {TABLE_FORMATS.map(format => (
+                <button
+                    key={format}
+                    onClick={() => onExport(format)}
+                    disabled={channels.length === 0}
+                    className={smallButtonClass}
+                >
+                  {EXPORTERS[format].label}
+                </button>
+              ))}
+              <button
+                  onClick={() => onCopy('aeKeyframes')}
+                  disabled={channels.length === 0}
+                  title="Paste onto a selected property in After Effects"
+                  className={`${smallButtonClass} flex items-center justify-center gap-1`}
+              >
+                <Clipboard size={12} />
+                Copy AE keys
+              </button>
+            </div>
+            <p className="text-[10px] text-zinc-600 mt-1">CSV/TSV hold 0-1 values; .chan and AE keys use each channel's output range. AE keys copy the selected channel.</p>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { HistoryState } from '../services/history';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (steps: number) => void; // Negative undoes, positive redoes
+}
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const { past, future } = history;
+
+  return (
+    <div className="border-t border-zinc-800 flex flex-col max-h-56 min-h-0">
+      <div className="p-3 flex items-center justify-between">
+        <h3 className="text-xs font-bold text-zinc-400 uppercase tracking-wider">History</h3>
+        <div className="flex gap-1">
+          <button
+              onClick={onUndo}
+              disabled={past.length === 0}
+              title="Undo (Ctrl+Z)"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-800 disabled:opacity-30"
+          >
+            <Undo2 size={12} />
+          </button>
+          <button
+              onClick={onRedo}
+              disabled={future.length === 0}
+              title="Redo (Ctrl+Shift+Z)"
+              className="p-1 rounded text-zinc-400 hover:bg-zinc-800 disabled:opacity-30"
+          >
+            <Redo2 size={12} />
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-0.5 font-mono text-[10px]">
+        <div
+            onClick={() => onJump(-past.length)}
+            className={`px-2 py-1 rounded cursor-pointer ${past.length === 0 ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-500 hover:bg-zinc-800/50'}`}
+        >
+          Analysis
+        </div>
+        {past.map((entry, idx) => (
+          <div
+              key={entry.id}
+              onClick={() => onJump(idx + 1 - past.length)}
+              className={`px-2 py-1 rounded cursor-pointer truncate ${idx === past.length - 1 ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-800/50'}`}
+          >
+            {entry.label}
+          </div>
+        ))}
+        {[...future].reverse().map((entry, idx) => (
+          <div
+              key={entry.id}
+              onClick={() => onJump(idx + 1)}
+              className="px-2 py-1 rounded cursor-pointer truncate text-zinc-600 italic hover:bg-zinc-800/50"
+          >
+            {entry.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AudioFile, NormalizationSettings, NormalizationStrategy } from '../types';
+import { NORMALIZATION_STRATEGIES } from '../services/normalization';
+
+interface NormalizationEditorProps {
+  file: AudioFile;
+  hasMeasurements: boolean; // Analyzed channels can be re-normalized in place
+  onChange: (id: string, normalization: NormalizationSettings) => void;
+}
+
+const fieldClass = "w-16 bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-white outline-none focus:border-cyan-500";
+
+const NormalizationEditor: React.FC<NormalizationEditorProps> = ({ file, hasMeasurements, onChange }) => {
+  const settings = file.normalization;
+  const update = (patch: Partial<NormalizationSettings>) => onChange(file.id, { ...settings, ...patch });
+  const strategy = NORMALIZATION_STRATEGIES.find(s => s.value === settings.strategy);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-zinc-300 truncate">{file.name}</span>
+        <div className="flex items-center gap-1">
+          {settings.strategy === 'percentile' && (
+            <input
+              type="number"
+              min={50}
+              max={100}
+              step={0.5}
+              value={settings.percentile}
+              onChange={(e) => update({ percentile: Math.max(50, Math.min(100, parseFloat(e.target.value) || 99)) })}
+              title="Percentile that reads as 1"
+              className={fieldClass}
+            />
+          )}
+          {settings.strategy === 'rolling' && (
+            <input
+              type="number"
+              min={0.5}
+              max={60}
+              step={0.5}
+              value={settings.windowSeconds}
+              onChange={(e) => update({ windowSeconds: Math.max(0.5, Math.min(60, parseFloat(e.target.value) || 8)) })}
+              title="Window length (s)"
+              className={fieldClass}
+            />
+          )}
+          <select
+            value={settings.strategy}
+            onChange={(e) => update({ strategy: e.target.value as NormalizationStrategy })}
+            className="bg-zinc-950 border border-zinc-800 rounded px-1 py-0.5 text-[10px] font-mono text-zinc-400 outline-none focus:border-cyan-500"
+          >
+            {NORMALIZATION_STRATEGIES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <p className="text-[10px] text-zinc-600">
+        {strategy?.hint}{hasMeasurements ? ' · applies to the analyzed channels right away' : ''}
+      </p>
+    </div>
+  );
+};
+
+export default NormalizationEditor;
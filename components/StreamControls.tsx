@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { StreamStatus } from '../services/streaming';
+import { Radio, ChevronDown } from 'lucide-react';
+
+interface StreamControlsProps {
+  status: StreamStatus;
+  url: string;
+  rate: number;
+  onUrlChange: (url: string) => void;
+  onRateChange: (rate: number) => void;
+  onToggle: () => void;
+}
+
+const STATUS_STYLES: Record<StreamStatus, string> = {
+  disconnected: 'text-zinc-500 hover:bg-zinc-800',
+  connecting: 'text-amber-400 bg-amber-500/10',
+  connected: 'text-cyan-400 bg-cyan-500/20',
+  error: 'text-red-400 bg-red-500/10',
+};
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded p-1 text-xs font-mono text-zinc-200 outline-none focus:border-cyan-500";
+
+/**
+ * Connects live streaming to the OSC bridge. Values go out while the
+ * transport plays.
+ */
+const StreamControls: React.FC<StreamControlsProps> = ({ status, url, rate, onUrlChange, onRateChange, onToggle }) => {
+  const [open, setOpen] = useState(false);
+  const live = status !== 'disconnected';
+
+  return (
+    <div className="relative flex-shrink-0">
+      <div className="flex">
+        <button
+            onClick={onToggle}
+            title={live ? `Streaming to ${url} (${status})` : 'Stream visible channels over OSC'}
+            className={`p-1.5 rounded-l ${STATUS_STYLES[status]}`}
+        >
+          <Radio size={14} />
+        </button>
+        <button onClick={() => setOpen(!open)} className="px-0.5 rounded-r text-zinc-500 hover:bg-zinc-800">
+          <ChevronDown size={12} />
+        </button>
+      </div>
+
+      {open && (
+        <div className="absolute left-0 top-full mt-2 w-64 bg-zinc-900 border border-zinc-800 rounded-lg shadow-xl p-4 z-30 space-y-3">
+          <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">Live Stream</h4>
+          <label className="block text-[10px] text-zinc-500 font-mono">
+            BRIDGE URL
+            <input
+                type="text"
+                value={url}
+                disabled={status === 'connecting' || status === 'connected'}
+                onChange={(e) => onUrlChange(e.target.value)}
+                className={inputClass}
+            />
+          </label>
+          <label className="block text-[10px] text-zinc-500 font-mono">
+            RATE (fps)
+            <input
+                type="number"
+                min={1}
+                max={120}
+                value={rate}
+                onChange={(e) => onRateChange(Math.max(1, Math.min(120, parseInt(e.target.value) || 1)))}
+                className={inputClass}
+            />
+          </label>
+          <p className="text-[10px] text-zinc-600">
+            Run <span className="text-zinc-400">npm run bridge</span>. Visible channels arrive at /motionsignal/&lt;channel id&gt;.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamControls;
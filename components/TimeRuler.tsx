@@ -0,0 +1,86 @@
+import React, { useRef } from 'react';
+import { AnalysisConfig, LoopRegion } from '../types';
+
+interface TimeRulerProps {
+  domain: [number, number];
+  duration: number;
+  currentTime: number;
+  config: AnalysisConfig;
+  loop: LoopRegion | null;
+  onScrub: (time: number) => void;
+  onLoopChange: (loop: LoopRegion) => void;
+}
+
+const MIN_LABEL_SPACING_PX = 48;
+
+/**
+ * Bar-numbered ruler. Drag to scrub; shift-drag to draw an A-B loop region.
+ */
+const TimeRuler: React.FC<TimeRulerProps> = ({ domain, duration, currentTime, config, loop, onScrub, onLoopChange }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [start, end] = domain;
+  const span = Math.max(1e-6, end - start);
+  const toPct = (t: number) => ((t - start) / span) * 100;
+
+  const timeAt = (clientX: number) => {
+    const rect = ref.current!.getBoundingClientRect();
+    const t = start + ((clientX - rect.left) / rect.width) * span;
+    return Math.max(0, Math.min(duration, t));
+  };
+
+  const onMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const anchor = timeAt(e.clientX);
+    const defineLoop = e.shiftKey;
+    if (!defineLoop) onScrub(anchor);
+
+    const onMove = (ev: MouseEvent) => {
+      const t = timeAt(ev.clientX);
+      if (defineLoop) onLoopChange({ start: Math.min(anchor, t), end: Math.max(anchor, t), enabled: true });
+      else onScrub(t);
+    };
+    const onUp = () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+  };
+
+  // Bar ticks, thinned out so labels don't collide
+  const barLength = (60 / config.bpm) * config.timeSignature;
+  const width = ref.current?.clientWidth ?? 800;
+  const barsPerLabel = Math.max(1, Math.pow(2, Math.ceil(Math.log2((MIN_LABEL_SPACING_PX * span) / (barLength * width)))));
+  const firstBar = Math.ceil((start - config.beatOffset) / barLength / barsPerLabel) * barsPerLabel;
+  const ticks: { time: number; bar: number }[] = [];
+  for (let bar = firstBar; config.beatOffset + bar * barLength <= end && ticks.length < 500; bar += barsPerLabel) {
+    ticks.push({ time: config.beatOffset + bar * barLength, bar });
+  }
+
+  return (
+    <div
+        ref={ref}
+        onMouseDown={onMouseDown}
+        className="relative h-6 bg-zinc-900 border-b border-zinc-800 cursor-ew-resize overflow-hidden flex-shrink-0"
+        style={{ marginRight: 10 }}
+    >
+      {loop && (
+        <div
+            className={`absolute top-0 bottom-0 ${loop.enabled ? 'bg-amber-500/20 border-x border-amber-500/60' : 'bg-zinc-700/20 border-x border-zinc-600/40'}`}
+            style={{ left: `${toPct(loop.start)}%`, width: `${toPct(loop.end) - toPct(loop.start)}%` }}
+        />
+      )}
+      {ticks.map(tick => (
+        <div key={tick.bar} className="absolute top-0 bottom-0 border-l border-zinc-700" style={{ left: `${toPct(tick.time)}%` }}>
+          <span className="absolute top-0.5 left-1 text-[9px] font-mono text-zinc-500 pointer-events-none">{tick.bar + 1}</span>
+        </div>
+      ))}
+      <div
+          className="absolute top-0 bottom-0 w-px bg-white pointer-events-none"
+          style={{ left: `${toPct(currentTime)}%` }}
+      />
+    </div>
+  );
+};
+
+export default TimeRuler;
@@ -1,5 +1,5 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   ResponsiveContainer, 
   ComposedChart, 
@@ -11,8 +11,13 @@ import {
   Tooltip,
   ReferenceArea
 } from 'recharts';
-import { ChannelState, AnalysisConfig } from '../types';
-import { ZoomIn, RotateCcw } from 'lucide-react';
+import { ChannelState, AnalysisConfig, LoopRegion, AutomationBlend, AutomationSegment, Section } from '../types';
+import { COLORS } from '../constants';
+import { formatTimecode, frameAt } from '../services/timecode';
+import { AUTOMATION_BLENDS } from '../services/automation';
+import TimeRuler from './TimeRuler';
+import AutomationLayer, { AutomationTool } from './AutomationLayer';
+import { ZoomIn, RotateCcw, Repeat, Pencil, Eraser } from 'lucide-react';
 
 interface TimelineProps {
   channels: ChannelState[];
@@ -20,8 +25,21 @@ interface TimelineProps {
   config: AnalysisConfig;
   currentTime: number;
   onScrub: (time: number) => void;
+  loop: LoopRegion | null;
+  onLoopChange: (loop: LoopRegion | null) => void;
+  automationChannel: ChannelState | null; // Selected channel, whose automation is drawn and edited
+  onAutomationChange: (id: string, segments: AutomationSegment[], label: string, coalesceKey?: string) => void;
+  sections: Section[]; // Song structure drawn as bands behind the channels
 }
 
+const Y_MAX = 1.2;
+
+const TOOL_HINTS: Record<AutomationTool, string> = {
+  zoom: 'Drag to zoom · drag ruler to scrub · shift-drag ruler to loop',
+  draw: 'Drag to draw · click to add a key · drag keys to move · double-click to delete',
+  erase: 'Drag across automation to erase it',
+};
+
 // Downsample large datasets for chart performance
 const downsample = (channels: ChannelState[], points: number, duration: number, xDomain: [number, number]) => {
   if (channels.length === 0) return [];
@@ -53,20 +71,34 @@ const downsample = (channels: ChannelState[], points: number, duration: number,
   return data;
 };
 
-const Timeline: React.FC<TimelineProps> = ({ channels, duration, config, currentTime, onScrub }) => {
+const Timeline: React.FC<TimelineProps> = ({
+  channels, duration, config, currentTime, onScrub, loop, onLoopChange, automationChannel, onAutomationChange, sections
+}) => {
   const [left, setLeft] = useState<number | 'dataMin'>(0);
   const [right, setRight] = useState<number | 'dataMax'>(duration);
   const [refAreaLeft, setRefAreaLeft] = useState<number | null>(null);
   const [refAreaRight, setRefAreaRight] = useState<number | null>(null);
+  const [tool, setTool] = useState<AutomationTool>('zoom');
+  const [blend, setBlend] = useState<AutomationBlend>('replace');
+  const activeTool = automationChannel ? tool : 'zoom';
+
+  // A new analysis or project changes the length
+  useEffect(() => {
+    setLeft(0);
+    setRight(duration);
+  }, [duration]);
+
+  const domain = useMemo<[number, number]>(() => [
+    typeof left === 'number' ? left : 0,
+    typeof right === 'number' ? right : duration
+  ], [left, right, duration]);
 
   const displayData = useMemo(() => {
-    const l = typeof left === 'number' ? left : 0;
-    const r = typeof right === 'number' ? right : duration;
-    return downsample(channels, 600, duration, [l, r]);
-  }, [channels, duration, left, right]);
+    return downsample(channels, 600, duration, domain);
+  }, [channels, duration, domain]);
 
   const zoom = () => {
-    if (refAreaLeft === refAreaLeft || refAreaRight === null) {
+    if (refAreaLeft === null || refAreaRight === null || refAreaLeft === refAreaRight) {
       setRefAreaLeft(null);
       setRefAreaRight(null);
       return;
@@ -107,24 +139,90 @@ const Timeline: React.FC<TimelineProps> = ({ channels, duration, config, current
                 <RotateCcw size={10} />
                 RESET VIEW
             </button>
+            <div className="flex items-center gap-1">
+                {([['draw', Pencil], ['erase', Eraser]] as const).map(([value, Icon]) => (
+                    <button
+                        key={value}
+                        onClick={() => setTool(tool === value ? 'zoom' : value)}
+                        disabled={!automationChannel}
+                        title={automationChannel ? `${value} automation on ${automationChannel.label || automationChannel.id}` : 'Select a channel to edit automation'}
+                        className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded transition-colors disabled:opacity-40 ${activeTool === value ? 'bg-cyan-500/20 text-cyan-400' : 'bg-zinc-700 hover:bg-zinc-600 text-zinc-200'}`}
+                    >
+                        <Icon size={10} />
+                        {value.toUpperCase()}
+                    </button>
+                ))}
+                {activeTool === 'draw' && (
+                    <select
+                        value={blend}
+                        onChange={(e) => setBlend(e.target.value as AutomationBlend)}
+                        className="bg-zinc-900 border border-zinc-700 rounded px-1 py-0.5 text-[10px] font-mono text-zinc-300 outline-none focus:border-cyan-500"
+                    >
+                        {AUTOMATION_BLENDS.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+                    </select>
+                )}
+            </div>
             <div className="text-[10px] text-zinc-500 flex items-center gap-1">
                 <ZoomIn size={10} />
-                <span>Drag to zoom</span>
+                <span>{TOOL_HINTS[activeTool]}</span>
             </div>
+            {loop && (
+                <button 
+                    onClick={() => onLoopChange({ ...loop, enabled: !loop.enabled })}
+                    className={`flex items-center gap-1 text-[10px] px-2 py-1 rounded transition-colors ${loop.enabled ? 'bg-amber-500/20 text-amber-400' : 'bg-zinc-700 text-zinc-400'}`}
+                >
+                    <Repeat size={10} />
+                    {loop.start.toFixed(2)}s - {loop.end.toFixed(2)}s
+                </button>
+            )}
         </div>
-        <div className="text-xs text-zinc-400 font-mono">
-            {currentTime.toFixed(2)}s / {duration.toFixed(2)}s
+        <div className="text-xs text-zinc-400 font-mono flex items-center gap-3">
+            <span className="text-zinc-100">{formatTimecode(currentTime, config.fps, config.dropFrame)}</span>
+            <span>F {frameAt(currentTime, config.fps)}</span>
+            <span className="text-zinc-600">{formatTimecode(duration, config.fps, config.dropFrame)}</span>
         </div>
       </div>
+
+      <TimeRuler 
+          domain={domain}
+          duration={duration}
+          currentTime={currentTime}
+          config={config}
+          loop={loop}
+          onScrub={onScrub}
+          onLoopChange={onLoopChange}
+      />
       
       <div className="flex-1 relative w-full min-h-0">
         <div className="absolute inset-0">
+            {sections.length > 0 && (
+                <div className="absolute pointer-events-none overflow-hidden" style={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                    {sections.map((section, i) => {
+                        const color = COLORS[section.group % COLORS.length];
+                        const span = Math.max(1e-6, domain[1] - domain[0]);
+                        return (
+                            <div
+                                key={i}
+                                className="absolute top-0 bottom-0 border-l"
+                                style={{
+                                    left: `${((section.start - domain[0]) / span) * 100}%`,
+                                    width: `${((section.end - section.start) / span) * 100}%`,
+                                    backgroundColor: `${color}14`,
+                                    borderColor: `${color}66`,
+                                }}
+                            >
+                                <span className="absolute top-0.5 left-1 text-[10px] font-mono font-bold" style={{ color }}>{section.label}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
             <ResponsiveContainer width="100%" height="100%" debounce={50}>
             <ComposedChart 
                 data={displayData} 
                 margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
-                onMouseDown={(e) => e && setRefAreaLeft(Number(e.activeLabel))}
-                onMouseMove={(e) => refAreaLeft && e && setRefAreaRight(Number(e.activeLabel))}
+                onMouseDown={(e) => e && e.activeLabel !== undefined && setRefAreaLeft(Number(e.activeLabel))}
+                onMouseMove={(e) => refAreaLeft !== null && e && e.activeLabel !== undefined && setRefAreaRight(Number(e.activeLabel))}
                 onMouseUp={zoom}
             >
                 <CartesianGrid stroke="#27272a" vertical={false} />
@@ -135,7 +233,7 @@ const Timeline: React.FC<TimelineProps> = ({ channels, duration, config, current
                     hide 
                     allowDataOverflow
                 />
-                <YAxis domain={[0, 1.2]} hide allowDataOverflow />
+                <YAxis domain={[0, Y_MAX]} hide allowDataOverflow />
                 <Tooltip 
                     contentStyle={{ backgroundColor: '#18181b', borderColor: '#3f3f46', fontSize: '12px' }}
                     itemStyle={{ padding: 0 }}
@@ -156,20 +254,31 @@ const Timeline: React.FC<TimelineProps> = ({ channels, duration, config, current
 
                 <ReferenceLine x={currentTime} stroke="white" strokeDasharray="3 3" />
 
-                {refAreaLeft && refAreaRight ? (
+                {loop && loop.enabled && [loop.start, loop.end].map((t, i) => (
+                    <ReferenceLine key={i} x={t} stroke="#f59e0b" strokeOpacity={0.6} />
+                ))}
+
+                {refAreaLeft !== null && refAreaRight !== null ? (
                     <ReferenceArea x1={refAreaLeft} x2={refAreaRight} strokeOpacity={0.3} fill="#06b6d4" fillOpacity={0.1} />
                 ) : null}
 
             </ComposedChart>
             </ResponsiveContainer>
+            {automationChannel && (
+                <AutomationLayer
+                    domain={domain}
+                    duration={duration}
+                    yMax={Y_MAX}
+                    segments={automationChannel.automation}
+                    color={automationChannel.color}
+                    tool={activeTool}
+                    blend={blend}
+                    fps={config.fps}
+                    clickLength={60 / config.bpm}
+                    onChange={(segments, label, coalesceKey) => onAutomationChange(automationChannel.id, segments, label, coalesceKey)}
+                />
+            )}
         </div>
-        
-        {/* Scrub Overlay - Only active when not holding down mouse for zoom (tricky to distinguish, so shift-click for scrub?)
-            Actually, let's make top area scrubbable or add a modifier key logic.
-            For now, simpler user exp: The chart drag zooms. 
-            To scrub, click the Reference Line area? Or just remove the overlay scrub for now 
-            since we can see time in tooltip and use spacebar to play.
-        */}
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AudioFile } from '../types';
+import { Headphones } from 'lucide-react';
+
+export interface TrackMix {
+  mute: boolean;
+  solo: boolean;
+}
+
+interface TrackMixerProps {
+  files: AudioFile[];
+  mix: Record<string, TrackMix>;
+  levels: Record<string, number>; // Effective 0-1 level per file, for dimming
+  followSelection: boolean;
+  onToggle: (id: string, key: keyof TrackMix) => void;
+  onToggleFollow: () => void;
+}
+
+const TrackMixer: React.FC<TrackMixerProps> = ({ files, mix, levels, followSelection, onToggle, onToggleFollow }) => (
+  <div className="flex items-center gap-1 min-w-0 overflow-x-auto">
+    <button
+        onClick={onToggleFollow}
+        title="Solo the selected channel's source"
+        className={`p-1.5 rounded flex-shrink-0 ${followSelection ? 'bg-cyan-500/20 text-cyan-400' : 'text-zinc-500 hover:bg-zinc-800'}`}
+    >
+      <Headphones size={14} />
+    </button>
+    {files.map(f => (
+      <div
+          key={f.id}
+          className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded border border-zinc-800 flex-shrink-0 ${levels[f.id] === 0 ? 'opacity-40' : ''} ${f.buffer ? '' : 'italic'}`}
+          title={f.buffer ? f.name : `${f.name} (no audio loaded)`}
+      >
+        <span className="text-[10px] font-mono text-zinc-400 max-w-20 truncate">{f.name}</span>
+        <button
+            onClick={() => onToggle(f.id, 'mute')}
+            className={`text-[9px] w-4 h-4 rounded flex items-center justify-center font-bold ${mix[f.id]?.mute ? 'bg-red-500/20 text-red-500' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'}`}
+        >
+          M
+        </button>
+        <button
+            onClick={() => onToggle(f.id, 'solo')}
+            className={`text-[9px] w-4 h-4 rounded flex items-center justify-center font-bold ${mix[f.id]?.solo ? 'bg-yellow-500/20 text-yellow-500' : 'bg-zinc-800 text-zinc-500 hover:bg-zinc-700'}`}
+        >
+          S
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default TrackMixer;
@@ -1,10 +1,35 @@
 
-export const DEFAULT_CONFIG = {
+import { AnalysisConfig, NormalizationSettings } from './types';
+
+export const DEFAULT_CONFIG: AnalysisConfig = {
   fps: 30,
+  dropFrame: false,
+  windowAlignment: 'start',
+  windowFrames: 1,
   bpm: 140,
+  beatOffset: 0,
   timeSignature: 4
 };
 
+export const DEFAULT_NORMALIZATION: NormalizationSettings = {
+  strategy: 'percentile',
+  percentile: 99,
+  windowSeconds: 8
+};
+
+export const FPS_PRESETS: { label: string; fps: number; dropFrame: boolean }[] = [
+  { label: '23.976', fps: 24000 / 1001, dropFrame: false },
+  { label: '24', fps: 24, dropFrame: false },
+  { label: '25', fps: 25, dropFrame: false },
+  { label: '29.97', fps: 30000 / 1001, dropFrame: false },
+  { label: '29.97 DF', fps: 30000 / 1001, dropFrame: true },
+  { label: '30', fps: 30, dropFrame: false },
+  { label: '50', fps: 50, dropFrame: false },
+  { label: '59.94', fps: 60000 / 1001, dropFrame: false },
+  { label: '59.94 DF', fps: 60000 / 1001, dropFrame: true },
+  { label: '60', fps: 60, dropFrame: false },
+];
+
 export const COLORS = [
   '#06b6d4', // Cyan
   '#d946ef', // Fuchsia
@@ -27,3 +52,26 @@ export const DEFAULT_REFINEMENT = {
   clip: true,
   invert: false
 };
+
+export const BAND_PRESETS = [
+  { id: 'linear-8', label: 'Linear 8', scale: 'linear', count: 8 },
+  { id: 'linear-16', label: 'Linear 16', scale: 'linear', count: 16 },
+  { id: 'log-8', label: 'Log 8', scale: 'log', count: 8 },
+  { id: 'log-16', label: 'Log 16', scale: 'log', count: 16 },
+  { id: 'log-32', label: 'Log 32', scale: 'log', count: 32 },
+  { id: 'mel-8', label: 'Mel 8', scale: 'mel', count: 8 },
+  { id: 'mel-16', label: 'Mel 16', scale: 'mel', count: 16 },
+  { id: 'mel-32', label: 'Mel 32', scale: 'mel', count: 32 },
+] as const;
+
+export const BAND_MIN_HZ = 20;
+export const BAND_MAX_HZ = 20000;
+
+// Quiet time after the last refinement edit before re-processing in the background
+export const REFINE_DEBOUNCE_MS = 60;
+
+// Delay before the current session is written to IndexedDB
+export const AUTOSAVE_DELAY_MS = 1500;
+
+// Exported range of a fresh channel; matches the old fixed `* 100` slider scale
+export const DEFAULT_OUTPUT_RANGE = { outputMin: 0, outputMax: 100 };
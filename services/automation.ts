@@ -0,0 +1,126 @@
+import { AutomationBlend, AutomationSegment } from '../types';
+import { reduceKeyframes } from './exporters/keyframes';
+
+export const AUTOMATION_BLENDS: { value: AutomationBlend; label: string }[] = [
+  { value: 'replace', label: 'Replace' },
+  { value: 'add', label: 'Add' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+];
+
+const BLEND: Record<AutomationBlend, (signal: number, override: number) => number> = {
+  replace: (_, o) => o,
+  add: (v, o) => v + o,
+  multiply: (v, o) => v * o,
+  min: Math.min,
+  max: Math.max,
+};
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+export const segmentStart = (seg: AutomationSegment) => seg.points[0];
+export const segmentEnd = (seg: AutomationSegment) => seg.points[seg.points.length - 2];
+
+/**
+ * Linear interpolation between a segment's keyframes
+ */
+export const segmentValueAt = (seg: AutomationSegment, t: number): number => {
+  const p = seg.points;
+  if (t <= p[0]) return p[1];
+  for (let i = 2; i < p.length; i += 2) {
+    if (t <= p[i]) {
+      const span = p[i] - p[i - 2];
+      const k = span <= 0 ? 1 : (t - p[i - 2]) / span;
+      return p[i - 1] + (p[i + 1] - p[i - 1]) * k;
+    }
+  }
+  return p[p.length - 1];
+};
+
+/**
+ * Blends every segment into the per-frame signal. Segments don't overlap
+ * (the editing helpers below keep it that way).
+ */
+export const applyAutomation = (values: Float32Array, segments: AutomationSegment[], fps: number): Float32Array => {
+  if (!segments.length) return values;
+  const out = new Float32Array(values);
+  segments.forEach(seg => {
+    if (seg.points.length < 2) return;
+    const blend = BLEND[seg.blend];
+    const first = Math.max(0, Math.ceil(segmentStart(seg) * fps - 1e-6));
+    const last = Math.min(out.length - 1, Math.floor(segmentEnd(seg) * fps + 1e-6));
+    for (let f = first; f <= last; f++) out[f] = clamp01(blend(out[f], segmentValueAt(seg, f / fps)));
+  });
+  return out;
+};
+
+export const createSegment = (points: number[], blend: AutomationBlend): AutomationSegment => ({
+  id: Math.random().toString(36).substr(2, 9),
+  blend,
+  points,
+});
+
+// Keeps the part of a segment inside [from, to], with interpolated edge keys
+const clip = (seg: AutomationSegment, from: number, to: number): AutomationSegment | null => {
+  const start = Math.max(from, segmentStart(seg));
+  const end = Math.min(to, segmentEnd(seg));
+  if (end <= start) return null;
+  const points = [start, segmentValueAt(seg, start)];
+  for (let i = 0; i < seg.points.length; i += 2) {
+    if (seg.points[i] > start && seg.points[i] < end) points.push(seg.points[i], seg.points[i + 1]);
+  }
+  points.push(end, segmentValueAt(seg, end));
+  return { ...seg, id: Math.random().toString(36).substr(2, 9), points };
+};
+
+/**
+ * Removes automation between two times, splitting segments that straddle them
+ */
+export const eraseRange = (segments: AutomationSegment[], from: number, to: number): AutomationSegment[] =>
+  segments.flatMap(seg => {
+    if (segmentEnd(seg) <= from || segmentStart(seg) >= to) return [seg];
+    return [clip(seg, -Infinity, from), clip(seg, to, Infinity)].filter((s): s is AutomationSegment => s !== null);
+  });
+
+/**
+ * Adds a segment, replacing whatever automation it overlaps
+ */
+export const insertSegment = (segments: AutomationSegment[], seg: AutomationSegment): AutomationSegment[] =>
+  [...eraseRange(segments, segmentStart(seg), segmentEnd(seg)), seg].sort((a, b) => segmentStart(a) - segmentStart(b));
+
+/**
+ * Turns a freehand stroke into a segment: resampled per frame, then thinned
+ * to the keyframes needed to stay within `tolerance`.
+ */
+export const strokeToPoints = (stroke: { t: number; v: number }[], fps: number, tolerance = 0.01): number[] => {
+  const sorted = [...stroke].sort((a, b) => a.t - b.t);
+  const first = Math.ceil(sorted[0].t * fps);
+  const last = Math.floor(sorted[sorted.length - 1].t * fps);
+  if (last <= first) return [sorted[0].t, sorted[0].v, sorted[sorted.length - 1].t, sorted[sorted.length - 1].v];
+
+  const values = new Float32Array(last - first + 1);
+  let j = 0;
+  for (let f = first; f <= last; f++) {
+    const t = f / fps;
+    while (j < sorted.length - 2 && sorted[j + 1].t < t) j++;
+    const a = sorted[j];
+    const b = sorted[Math.min(j + 1, sorted.length - 1)];
+    const k = b.t > a.t ? clamp01((t - a.t) / (b.t - a.t)) : 0;
+    values[f - first] = clamp01(a.v + (b.v - a.v) * k);
+  }
+  return reduceKeyframes(values, tolerance).flatMap(i => [(first + i) / fps, values[i]]);
+};
+
+/**
+ * Adds a keyframe to the segment under `t`; returns null when there is none
+ */
+export const insertKeyframe = (segments: AutomationSegment[], t: number, v: number): AutomationSegment[] | null => {
+  const target = segments.find(seg => t >= segmentStart(seg) && t <= segmentEnd(seg));
+  if (!target) return null;
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < target.points.length; i += 2) pairs.push([target.points[i], target.points[i + 1]]);
+  pairs.push([t, clamp01(v)]);
+  pairs.sort((a, b) => a[0] - b[0]);
+  return segments.map(seg => seg === target ? { ...seg, points: pairs.flat() } : seg);
+};
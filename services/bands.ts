@@ -0,0 +1,72 @@
+import { BandScale, FrequencyBand } from '../types';
+import { BAND_MIN_HZ, BAND_MAX_HZ } from '../constants';
+import { Spectrogram } from './fft';
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+const formatHz = (hz: number) => hz >= 1000 ? `${+(hz / 1000).toFixed(1)}k` : `${Math.round(hz)}`;
+
+/**
+ * Splits the audible range into `count` contiguous bands on the given scale
+ */
+export const createBandPreset = (
+  scale: BandScale,
+  count: number,
+  minHz = BAND_MIN_HZ,
+  maxHz = BAND_MAX_HZ
+): FrequencyBand[] => {
+  const edges: number[] = [];
+  for (let i = 0; i <= count; i++) {
+    const t = i / count;
+    if (scale === 'linear') {
+      edges.push(minHz + (maxHz - minHz) * t);
+    } else if (scale === 'log') {
+      edges.push(minHz * Math.pow(maxHz / minHz, t));
+    } else {
+      edges.push(melToHz(hzToMel(minHz) + (hzToMel(maxHz) - hzToMel(minHz)) * t));
+    }
+  }
+
+  return Array.from({ length: count }, (_, i) => ({
+    id: `b${String(i + 1).padStart(2, '0')}`,
+    name: `${formatHz(edges[i])}-${formatHz(edges[i + 1])}Hz`,
+    lowHz: Math.round(edges[i]),
+    highHz: Math.round(edges[i + 1]),
+  }));
+};
+
+/**
+ * Turns a user label into a channel-safe id, unique among `existing`
+ */
+export const bandIdFromName = (name: string, existing: FrequencyBand[]): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'band';
+  let id = base;
+  let n = 2;
+  while (existing.some(b => b.id === id)) id = `${base}_${n++}`;
+  return id;
+};
+
+/**
+ * Band amplitude per frame, mapped from -60..0 dBFS onto 0-1
+ */
+export const extractBandValues = (spec: Spectrogram, band: FrequencyBand): Float32Array => {
+  const maxBin = spec.frames.length ? spec.frames[0].length - 1 : 0;
+  const lowHz = Math.min(band.lowHz, band.highHz);
+  const highHz = Math.max(band.lowHz, band.highHz);
+  let lo = Math.max(0, Math.min(maxBin, Math.round(lowHz / spec.binHz)));
+  let hi = Math.max(0, Math.min(maxBin, Math.round(highHz / spec.binHz)));
+  // Narrow bands below FFT resolution still read their nearest bin
+  if (hi <= lo) hi = Math.min(maxBin, lo + 1);
+  if (hi <= lo) lo = Math.max(0, hi - 1);
+
+  const values = new Float32Array(spec.frames.length);
+  for (let f = 0; f < spec.frames.length; f++) {
+    const mags = spec.frames[f];
+    let sumSq = 0;
+    for (let k = lo; k < hi; k++) sumSq += mags[k] * mags[k];
+    const db = 20 * Math.log10(Math.sqrt(sumSq) + 1e-9);
+    values[f] = Math.max(0, Math.min(1, (db + 60) / 60));
+  }
+  return values;
+};
@@ -0,0 +1,85 @@
+/**
+ * Transfer curves: 0-1 in, 0-1 out. Points are stored flat as
+ * [x0, y0, x1, y1, ...] so they fit in ProcessorParams and project JSON.
+ */
+
+export type CurveInterpolation = 'smooth' | 'linear' | 'step';
+
+export const CURVE_PRESETS: Record<string, { label: string; points: number[]; interpolation: CurveInterpolation }> = {
+  linear: { label: 'Linear', points: [0, 0, 1, 1], interpolation: 'linear' },
+  exponential: { label: 'Exponential (ease in)', points: [0, 0, 0.5, 0.15, 0.8, 0.45, 1, 1], interpolation: 'smooth' },
+  logarithmic: { label: 'Logarithmic (ease out)', points: [0, 0, 0.2, 0.55, 0.5, 0.85, 1, 1], interpolation: 'smooth' },
+  sCurve: { label: 'S-Curve', points: [0, 0, 0.25, 0.08, 0.5, 0.5, 0.75, 0.92, 1, 1], interpolation: 'smooth' },
+  squash: { label: 'Squash Top', points: [0, 0, 0.6, 0.7, 1, 0.8], interpolation: 'smooth' },
+  steps: { label: 'Steps (4)', points: [0, 0, 0.25, 0.25, 0.5, 0.5, 0.75, 0.75, 1, 1], interpolation: 'step' },
+};
+
+export const DEFAULT_CURVE_POINTS = CURVE_PRESETS.linear.points;
+
+/**
+ * Splits the flat list into points sorted by x
+ */
+export const toPoints = (flat: number[]): { x: number; y: number }[] => {
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i + 1 < flat.length; i += 2) points.push({ x: flat[i], y: flat[i + 1] });
+  return points.sort((a, b) => a.x - b.x);
+};
+
+export const fromPoints = (points: { x: number; y: number }[]): number[] =>
+  [...points].sort((a, b) => a.x - b.x).flatMap(p => [p.x, p.y]);
+
+/**
+ * Builds the curve function. 'smooth' is a monotone cubic (Fritsch-Carlson),
+ * so it never overshoots between points; 'step' holds each point's value until
+ * the next one. Inputs outside the first/last point hold the end values.
+ */
+export const createCurve = (flat: number[], interpolation: CurveInterpolation): ((x: number) => number) => {
+  const pts = toPoints(flat);
+  if (pts.length === 0) return x => x;
+  if (pts.length === 1) return () => pts[0].y;
+
+  const n = pts.length;
+  const xs = pts.map(p => p.x);
+  const ys = pts.map(p => p.y);
+
+  // Tangents for the monotone cubic
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) slopes.push((ys[i + 1] - ys[i]) / Math.max(1e-9, xs[i + 1] - xs[i]));
+  const tangents = xs.map((_, i) => {
+    if (i === 0) return slopes[0];
+    if (i === n - 1) return slopes[n - 2];
+    return slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+  });
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      tangents[i] = t * a * slopes[i];
+      tangents[i + 1] = t * b * slopes[i];
+    }
+  }
+
+  return (x: number) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+    let i = 0;
+    while (i < n - 2 && x >= xs[i + 1]) i++;
+
+    if (interpolation === 'step') return ys[i];
+    const h = xs[i + 1] - xs[i];
+    const t = h <= 0 ? 0 : (x - xs[i]) / h;
+    if (interpolation === 'linear') return ys[i] + (ys[i + 1] - ys[i]) * t;
+
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[i] + (t3 - 2 * t2 + t) * h * tangents[i]
+      + (-2 * t3 + 3 * t2) * ys[i + 1] + (t3 - t2) * h * tangents[i + 1];
+  };
+};
@@ -0,0 +1,75 @@
+import { ChannelState, RawChannelData } from '../types';
+import { compileExpression, CompiledExpression } from './expression';
+import { topologicalOrder } from './graph';
+import { chainInputs } from './processors';
+
+/**
+ * Input arrays for an expression's channel refs: processed values by default,
+ * analysis values for raw("id") refs. Missing channels read as silence.
+ */
+export const resolveInputs = (
+  compiled: CompiledExpression,
+  raws: RawChannelData[],
+  states: ChannelState[]
+): ArrayLike<number>[] =>
+  compiled.refs.map(ref => {
+    const raw = raws.find(r => r.id === ref.id);
+    if (ref.raw) return raw?.values ?? [];
+    return states.find(s => s.id === ref.id)?.processedValues ?? raw?.values ?? [];
+  });
+
+const derivedDeps = (raws: RawChannelData[]) => {
+  const deps = new Map<string, string[]>();
+  raws.forEach(r => {
+    if (r.type !== 'derived' || !r.expression) return;
+    try {
+      deps.set(r.id, compileExpression(r.expression).refs.map(ref => ref.id));
+    } catch {
+      deps.set(r.id, []);
+    }
+  });
+  return deps;
+};
+
+/**
+ * Every channel's inputs: sidechain keys from its chain plus, for derived
+ * channels, the channels its expression reads. Cycles here would make
+ * refinement chase its own tail, so edits that create one are rejected.
+ */
+export const channelDependencies = (raws: RawChannelData[], states: ChannelState[]): Map<string, string[]> => {
+  const deps = derivedDeps(raws);
+  states.forEach(st => deps.set(st.id, [...(deps.get(st.id) ?? []), ...chainInputs(st.settings)]));
+  return deps;
+};
+
+/**
+ * Sidechain-only graph: which chains read which channels' processed values
+ */
+export const sidechainDependencies = (states: ChannelState[]): Map<string, string[]> =>
+  new Map(states.map(st => [st.id, chainInputs(st.settings)]));
+
+/**
+ * Derived channel ids, each after the derived channels it reads
+ */
+export const derivedOrder = (raws: RawChannelData[]): string[] => topologicalOrder(derivedDeps(raws));
+
+/**
+ * Compiles a derived channel's expression and checks it against the current
+ * channels: every ref must exist and the result must not depend on itself.
+ */
+export const validateDerived = (
+  id: string,
+  expression: string,
+  raws: RawChannelData[],
+  states: ChannelState[]
+): CompiledExpression => {
+  const compiled = compileExpression(expression);
+  const missing = compiled.refs.find(ref => !raws.some(r => r.id === ref.id));
+  if (missing) throw new Error(`Unknown channel "${missing.id}"`);
+
+  const next = raws.some(r => r.id === id)
+    ? raws.map(r => r.id === id ? { ...r, expression } : r)
+    : [...raws, { id, name: id, sourceId: 'master', values: new Float32Array(0), type: 'derived' as const, expression }];
+  topologicalOrder(channelDependencies(next, states));
+  return compiled;
+};
@@ -1,5 +1,15 @@
 
-import { AnalysisConfig, RawChannelData, RefinementSettings } from '../types';
+import { AnalysisConfig, AutomationSegment, FrequencyBand, NormalizationSettings, RawChannelData, RefinementChain, SeparationMode } from '../types';
+import { DEFAULT_NORMALIZATION } from '../constants';
+import { computeSpectrogram } from './fft';
+import { extractBandValues } from './bands';
+import { spectralFlux, detectOnsets } from './onsets';
+import { PROCESSORS } from './processors';
+import { applyAutomation } from './automation';
+import { normalizeLevels } from './normalization';
+import { analyzeTonal, PITCH_CLASSES } from './tonal';
+import { segmentStructure, sectionChannels } from './structure';
+import { separateHarmonicPercussive, separatedParts, separatedSourceId } from './separation';
 
 /**
  * Reads a File object and decodes it into an AudioBuffer
@@ -11,20 +21,68 @@ export const decodeAudioFile = async (file: File): Promise<AudioBuffer> => {
 };
 
 /**
- * Analyzes an AudioBuffer to extract motion features
+ * The parts of an AudioBuffer the analysis reads; plain objects satisfy it inside workers
  */
-export const analyzeAudioBuffer = async (
-  buffer: AudioBuffer,
+export type AudioSource = Pick<AudioBuffer, 'sampleRate' | 'length' | 'duration' | 'numberOfChannels' | 'getChannelData'>;
+
+// Reports analysis progress: stage label and 0-1 fraction of the whole analysis
+export type ProgressCallback = (stage: string, fraction: number) => void;
+
+/**
+ * Averages all channels of a buffer into a single mono signal
+ */
+export const mixToMono = (buffer: AudioSource): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i];
+  }
+  const scale = 1 / Math.max(1, buffer.numberOfChannels);
+  for (let i = 0; i < mono.length; i++) mono[i] *= scale;
+  return mono;
+};
+
+/**
+ * Sample range analyzed for a frame. Positions come from the exact fractional
+ * samples-per-frame (1837.5 at 44.1 kHz / 24 fps), so frames never drift
+ * against the comp however long the file is.
+ */
+export const frameWindow = (frame: number, sampleRate: number, config: AnalysisConfig, length: number) => {
+  const samplesPerFrame = sampleRate / config.fps;
+  const size = samplesPerFrame * Math.max(1, config.windowFrames);
+  const time = frame * samplesPerFrame;
+  const from = config.windowAlignment === 'centered' ? time - size / 2 : time;
+  return {
+    start: Math.max(0, Math.min(length, Math.round(from))),
+    end: Math.max(0, Math.min(length, Math.round(from + size))),
+    center: from + size / 2,
+  };
+};
+
+// Scales the level features used before normalization existed; the 'fixed'
+// strategy still applies them
+const FIXED_GAINS = { energy: 4, low: 5, mid: 4, high: 8, transient: 16, width: 4 };
+
+/**
+ * Analyzes one source's signal to extract motion features. Level features
+ * keep their raw measurements so they can be re-normalized later.
+ */
+const analyzeSource = async (
+  buffer: AudioSource,
   config: AnalysisConfig,
   sourceId: string,
-  sourceName: string
+  sourceName: string,
+  bands: FrequencyBand[] = [],
+  onProgress: ProgressCallback = () => {},
+  normalization: NormalizationSettings = DEFAULT_NORMALIZATION,
+  tonal = false
 ): Promise<RawChannelData[]> => {
   const channelDataL = buffer.getChannelData(0);
   const channelDataR = buffer.numberOfChannels > 1 ? buffer.getChannelData(1) : channelDataL;
   
   const duration = buffer.duration;
-  const totalFrames = Math.ceil(duration * config.fps);
-  const samplesPerFrame = Math.floor(buffer.sampleRate / config.fps);
+  const totalFrames = Math.ceil(duration * config.fps - 1e-6);
+  const mono = mixToMono(buffer);
   
   const energy = new Float32Array(totalFrames);
   const low = new Float32Array(totalFrames);
@@ -34,14 +92,21 @@ export const analyzeAudioBuffer = async (
   const width = new Float32Array(totalFrames);
   const transient = new Float32Array(totalFrames);
 
-  // Filters state
+  // Lowpass runs once over the whole file so overlapping windows see the same signal
+  const lowpassed = new Float32Array(mono.length);
   let lpState = 0;
   // Highpass state is derived
   const lpAlpha = 0.15; // Approx for low end
+  for (let i = 0; i < mono.length; i++) {
+    lpState += (mono[i] - lpState) * lpAlpha;
+    lowpassed[i] = lpState;
+  }
   
+  onProgress('Measuring levels', 0);
   for (let f = 0; f < totalFrames; f++) {
-    const start = f * samplesPerFrame;
-    const end = Math.min(start + samplesPerFrame, channelDataL.length);
+    if (f % 2000 === 0) onProgress('Measuring levels', (f / totalFrames) * 0.4);
+    const { start, end } = frameWindow(f, buffer.sampleRate, config, mono.length);
+    const count = Math.max(1, end - start);
     
     let sumSq = 0;
     let sumLow = 0;
@@ -53,121 +118,227 @@ export const analyzeAudioBuffer = async (
     let localMin = 0;
 
     for (let i = start; i < end; i++) {
-      const sampleL = channelDataL[i];
-      const sampleR = channelDataR[i];
-      const mono = (sampleL + sampleR) * 0.5;
+      const sample = mono[i];
 
       // Stereo Width (Difference)
-      const diff = Math.abs(sampleL - sampleR);
+      const diff = Math.abs(channelDataL[i] - channelDataR[i]);
       sumDiff += diff;
       
-      // Lowpass (Simple Exponential)
-      lpState += (mono - lpState) * lpAlpha;
-      const lowFreq = lpState;
-      const highFreq = mono - lpState;
+      const lowFreq = lowpassed[i];
+      const highFreq = sample - lowFreq;
       
-      sumSq += mono * mono;
+      sumSq += sample * sample;
       sumLow += lowFreq * lowFreq;
       sumHigh += highFreq * highFreq;
       
-      if (Math.abs(mono) > localMax) localMax = Math.abs(mono);
+      if (Math.abs(sample) > localMax) localMax = Math.abs(sample);
     }
 
-    const rms = Math.sqrt(sumSq / (end - start));
-    const rmsLow = Math.sqrt(sumLow / (end - start));
-    const rmsHigh = Math.sqrt(sumHigh / (end - start));
-    const avgDiff = sumDiff / (end - start);
+    const rms = Math.sqrt(sumSq / count);
+    const rmsLow = Math.sqrt(sumLow / count);
+    const rmsHigh = Math.sqrt(sumHigh / count);
+    const avgDiff = sumDiff / count;
 
-    energy[f] = Math.min(1, rms * 4);
-    low[f] = Math.min(1, rmsLow * 5);
-    high[f] = Math.min(1, rmsHigh * 8);
-    // Mid is roughly total minus high and low overlap
-    mid[f] = Math.max(0, energy[f] - (low[f] * 0.4) - (high[f] * 0.4));
+    energy[f] = rms;
+    low[f] = rmsLow;
+    high[f] = rmsHigh;
+    // Mid is roughly total minus high and low overlap (same weighting as the fixed gains)
+    mid[f] = Math.max(0, rms - rmsLow * 0.5 - rmsHigh * 0.8);
     
     // Brightness: Ratio of High to Total Energy
     const totalSpec = rmsLow + rmsHigh + 0.001;
     brightness[f] = Math.min(1, (rmsHigh / totalSpec) * 2);
 
-    // Width: Normalized difference
-    width[f] = Math.min(1, avgDiff * 4);
+    // Width: mean stereo difference
+    width[f] = avgDiff;
     
     // Transient/Punch: Rate of change of energy from previous frame
     if (f > 0) {
         const delta = energy[f] - energy[f-1];
-        transient[f] = delta > 0 ? Math.min(1, delta * 4) : 0;
+        transient[f] = delta > 0 ? delta : 0;
     }
   }
 
-  // Derived: Beat Phase
+  // Derived: Beat Phase, aligned so bar phase 0 lands on the first downbeat
   const beatPhase = new Float32Array(totalFrames);
   const barPhase = new Float32Array(totalFrames);
   const secondsPerBeat = 60 / config.bpm;
+  const wrap = (x: number) => x - Math.floor(x);
   
   for (let f = 0; f < totalFrames; f++) {
     const time = f / config.fps;
-    const beats = time / secondsPerBeat;
-    beatPhase[f] = beats % 1;
-    barPhase[f] = (beats / config.timeSignature) % 1;
+    const beats = (time - config.beatOffset) / secondsPerBeat;
+    beatPhase[f] = wrap(beats);
+    barPhase[f] = wrap(beats / config.timeSignature);
   }
 
   // Prefix naming
   const prefix = sourceId === 'master' ? '' : `${sourceName}_`;
 
+  // Onsets: spectral flux + peak picking
+  onProgress('Detecting onsets', 0.4);
+  const onsets = detectOnsets(spectralFlux(mono, buffer.sampleRate), totalFrames, config.fps);
+
+  // FFT bands
+  const bandChannels: RawChannelData[] = [];
+  if (bands.length > 0) {
+    const spec = computeSpectrogram(
+      mono, buffer.sampleRate, totalFrames, f => frameWindow(f, buffer.sampleRate, config, mono.length).center, undefined,
+      fraction => onProgress('FFT bands', 0.6 + fraction * (tonal ? 0.2 : 0.4))
+    );
+    bands.forEach(band => {
+      bandChannels.push({
+        id: `${prefix}band_${band.id}`,
+        name: `${sourceName} ${band.name}`,
+        sourceId,
+        values: extractBandValues(spec, band),
+        type: 'frequency'
+      });
+    });
+  }
+
+  // Chroma, pitch and key
+  const tonalChannels: RawChannelData[] = [];
+  if (tonal) {
+    const features = analyzeTonal(
+      mono, buffer.sampleRate, totalFrames, config.fps,
+      f => frameWindow(f, buffer.sampleRate, config, mono.length).center,
+      fraction => onProgress('Tonal features', (bands.length > 0 ? 0.8 : 0.6) + fraction * (bands.length > 0 ? 0.2 : 0.4))
+    );
+    PITCH_CLASSES.forEach((pc, i) => {
+      tonalChannels.push({
+        id: `${prefix}chroma_${pc.toLowerCase().replace('#', 's')}`,
+        name: `${sourceName} Chroma ${pc}`,
+        sourceId,
+        values: features.chroma[i],
+        type: 'tonal'
+      });
+    });
+    tonalChannels.push(
+      { id: `${prefix}pitch`, name: `${sourceName} Pitch`, sourceId, values: features.pitch, type: 'tonal' },
+      { id: `${prefix}pitch_confidence`, name: `${sourceName} Pitch Confidence`, sourceId, values: features.confidence, type: 'tonal' },
+      { id: `${prefix}key`, name: `${sourceName} Key`, sourceId, values: features.key, type: 'tonal', estimate: features.keyName },
+    );
+  }
+
+  // Song structure, master only
+  const structureChannels: RawChannelData[] = [];
+  if (sourceId === 'master') {
+    onProgress('Finding sections', 0.99);
+    const sections = segmentStructure(mono, buffer.sampleRate, config);
+    const { index, progress } = sectionChannels(sections, totalFrames, config.fps);
+    structureChannels.push(
+      { id: 'section_index', name: 'Section Index', sourceId, values: index, type: 'structure', sections },
+      { id: 'section_progress', name: 'Section Progress', sourceId, values: progress, type: 'structure' },
+    );
+  }
+
+  onProgress('Done', 1);
+
+  const level = (feature: keyof typeof FIXED_GAINS, measurements: Float32Array) => ({
+    measurements,
+    fixedGain: FIXED_GAINS[feature],
+    values: normalizeLevels(measurements, normalization, config.fps, FIXED_GAINS[feature]),
+  });
+
   return [
-    { id: `${prefix}energy`, name: `${sourceName} Energy`, sourceId, values: energy, type: 'energy' },
-    { id: `${prefix}low`, name: `${sourceName} Low`, sourceId, values: low, type: 'energy' },
-    { id: `${prefix}mid`, name: `${sourceName} Mid`, sourceId, values: mid, type: 'energy' },
-    { id: `${prefix}high`, name: `${sourceName} High`, sourceId, values: high, type: 'energy' },
-    { id: `${prefix}transient`, name: `${sourceName} Punch`, sourceId, values: transient, type: 'rhythmic' },
+    { id: `${prefix}energy`, name: `${sourceName} Energy`, sourceId, ...level('energy', energy), type: 'energy' },
+    { id: `${prefix}low`, name: `${sourceName} Low`, sourceId, ...level('low', low), type: 'energy' },
+    { id: `${prefix}mid`, name: `${sourceName} Mid`, sourceId, ...level('mid', mid), type: 'energy' },
+    { id: `${prefix}high`, name: `${sourceName} High`, sourceId, ...level('high', high), type: 'energy' },
+    { id: `${prefix}transient`, name: `${sourceName} Punch`, sourceId, ...level('transient', transient), type: 'rhythmic' },
+    { id: `${prefix}onset`, name: `${sourceName} Onset`, sourceId, values: onsets.strength, type: 'rhythmic', events: onsets.times },
     { id: `${prefix}brightness`, name: `${sourceName} Bright`, sourceId, values: brightness, type: 'creative' },
-    { id: `${prefix}width`, name: `${sourceName} Width`, sourceId, values: width, type: 'creative' },
+    { id: `${prefix}width`, name: `${sourceName} Width`, sourceId, ...level('width', width), type: 'creative' },
+    ...bandChannels,
+    ...tonalChannels,
     // Only generate phase for master
     ...(sourceId === 'master' ? [
         { id: `beat_phase`, name: `Beat Phase`, sourceId, values: beatPhase, type: 'phase' },
         { id: `bar_phase`, name: `Bar Phase`, sourceId, values: barPhase, type: 'phase' },
-    ] : [])
+    ] : []),
+    ...structureChannels
   ] as RawChannelData[];
 };
 
+// Share of the progress bar for the source's own analysis and for the separation when splitting
+const SOURCE_SHARE = 0.4;
+const SEPARATION_SHARE = 0.3;
+
 /**
- * Applies refinement settings. Optimized loop.
+ * Analyzes an AudioBuffer to extract motion features. With separation on, the
+ * source is also split into harmonic/percussive (and residual) parts, each
+ * analyzed like a mono stem under its own sourceId.
  */
-export const refineChannel = (
-  raw: Float32Array,
-  settings: RefinementSettings,
-  bpm: number,
-  fps: number
-): Float32Array => {
-  const result = new Float32Array(raw.length);
-  let smoothed = 0;
-  // Map smooth 0-1 to an alpha value.
-  const alpha = 1 - Math.pow(settings.smooth, 0.5) * 0.95; 
-
-  for (let i = 0; i < raw.length; i++) {
-    let val = raw[i];
-
-    // Gate
-    if (val < settings.gate) val = 0;
+export const analyzeAudioBuffer = async (
+  buffer: AudioSource,
+  config: AnalysisConfig,
+  sourceId: string,
+  sourceName: string,
+  bands: FrequencyBand[] = [],
+  onProgress: ProgressCallback = () => {},
+  normalization: NormalizationSettings = DEFAULT_NORMALIZATION,
+  tonal = false,
+  separation: SeparationMode = 'off'
+): Promise<RawChannelData[]> => {
+  const parts = separatedParts(separation);
+  if (!parts.length) return analyzeSource(buffer, config, sourceId, sourceName, bands, onProgress, normalization, tonal);
 
-    // Gain & Offset
-    val = (val + settings.offset) * settings.gain;
+  const own = await analyzeSource(
+    buffer, config, sourceId, sourceName, bands,
+    (stage, fraction) => onProgress(stage, fraction * SOURCE_SHARE),
+    normalization, tonal
+  );
 
-    // Smoothing (Low pass)
-    smoothed = (smoothed * (1 - alpha)) + (val * alpha);
-    let final = smoothed;
+  const signals = separateHarmonicPercussive(
+    mixToMono(buffer), separation,
+    fraction => onProgress('Separating', SOURCE_SHARE + fraction * SEPARATION_SHARE)
+  );
 
-    // Clip
-    if (settings.clip) {
-      final = Math.max(0, Math.min(1, final));
-    } else {
-      final = Math.max(0, final); // Always clamp bottom at 0
-    }
+  const separated: RawChannelData[] = [];
+  const base = SOURCE_SHARE + SEPARATION_SHARE;
+  for (const [i, part] of parts.entries()) {
+    const signal = signals[part]!;
+    const partSource: AudioSource = {
+      sampleRate: buffer.sampleRate,
+      length: signal.length,
+      duration: buffer.duration,
+      numberOfChannels: 1,
+      getChannelData: () => signal,
+    };
+    const channels = await analyzeSource(
+      partSource, config, separatedSourceId(sourceId, part), `${sourceName}_${part}`, [],
+      (stage, fraction) => onProgress(`${part}: ${stage}`, base + ((i + fraction) / parts.length) * (1 - base)),
+      normalization
+    );
+    // Parts are mono, so there is no width to measure
+    separated.push(...channels.filter(c => !c.id.endsWith('_width')));
+  }
 
-    if (settings.invert) {
-        final = 1 - final;
-    }
+  onProgress('Done', 1);
+  return [...own, ...separated];
+};
 
-    result[i] = final;
+/**
+ * Runs the refinement chain in order, skipping bypassed processors, then
+ * blends in the channel's automation overrides.
+ */
+export const refineChannel = (
+  raw: Float32Array,
+  chain: RefinementChain,
+  bpm: number,
+  fps: number,
+  beatOffset = 0,
+  inputs: Record<string, Float32Array> = {},
+  automation: AutomationSegment[] = []
+): Float32Array => {
+  const ctx = { bpm, fps, beatOffset, inputs };
+  let result = raw;
+  for (const processor of chain) {
+    if (processor.bypass) continue;
+    result = PROCESSORS[processor.type].process(result, processor.params, ctx);
   }
-  return result;
+  // Hand-drawn overrides sit on top of the chain
+  result = applyAutomation(result, automation, fps);
+  return result === raw ? new Float32Array(raw) : result;
 };
@@ -0,0 +1,48 @@
+import { analyzeAudioBuffer, refineChannel, AudioSource } from './dsp';
+import { WorkerRequest, WorkerResponse } from './workerPool';
+
+const post = (msg: WorkerResponse, transfer: Transferable[] = []) =>
+  (self as unknown as Worker).postMessage(msg, transfer);
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const { taskId, task } = e.data;
+  try {
+    if (task.kind === 'analyze') {
+      const { channels, sampleRate } = task;
+      const source: AudioSource = {
+        sampleRate,
+        length: channels[0].length,
+        duration: channels[0].length / sampleRate,
+        numberOfChannels: channels.length,
+        getChannelData: (c: number) => channels[c],
+      };
+
+      let lastReport = 0;
+      const result = await analyzeAudioBuffer(
+        source, task.config, task.sourceId, task.sourceName, task.bands,
+        (stage, fraction) => {
+          // Throttle so the main thread isn't flooded
+          const now = performance.now();
+          if (now - lastReport < 50 && fraction < 1) return;
+          lastReport = now;
+          post({ taskId, type: 'progress', stage, fraction });
+        },
+        task.normalization,
+        task.tonal,
+        task.separation
+      );
+      const buffers = result.flatMap(ch => ch.measurements ? [ch.values.buffer, ch.measurements.buffer] : [ch.values.buffer]);
+      post({ taskId, type: 'result', result }, buffers);
+    } else {
+      const result: Record<string, Float32Array> = {};
+      const inputs = { ...task.inputs };
+      for (const job of task.jobs) {
+        result[job.id] = refineChannel(job.raw, job.chain, task.bpm, task.fps, task.beatOffset, inputs, job.automation);
+        inputs[job.id] = result[job.id];
+      }
+      post({ taskId, type: 'result', result }, Object.values(result).map(v => v.buffer));
+    }
+  } catch (err) {
+    post({ taskId, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,247 @@
+import { AnalysisConfig, AudioFileMeta, ChannelState, RawChannelData, Section } from '../../types';
+import { reduceKeyframes } from './keyframes';
+import { supportsDropFrame } from '../timecode';
+import { splitSourceId } from '../separation';
+
+export type AeExportMode = 'expression' | 'keyframes';
+
+export interface AeScriptOptions {
+  mode: AeExportMode;
+  tolerance: number; // Max keyframe reduction error, in 0-1 signal units (keyframes mode)
+  layerOffset: number; // Comp time (s) at which the data starts
+  compWidth: number; // Only used when there is no active comp to write into
+  compHeight: number;
+}
+
+export const DEFAULT_AE_OPTIONS: AeScriptOptions = {
+  mode: 'expression',
+  tolerance: 0.005,
+  layerOffset: 0,
+  compWidth: 1920,
+  compHeight: 1080,
+};
+
+export const AE_SCRIPT_NAME = 'Create_AE_Controller.jsx';
+
+const CONTROLLER_NAME = 'MOTION_CONTROLLER';
+const DATA_COMP_NAME = 'Motion Data Comp'; // Created when no comp is active
+
+// After Effects' default label colors, indexed from 1
+const AE_LABEL_COLORS = [
+  '#b53838', '#e4d84c', '#a9cbc7', '#e5bcc9', '#a9a9ca', '#e7c19e', '#b3c7b3', '#677de0',
+  '#4aa44c', '#8e2c9a', '#e8920d', '#7f452a', '#f46dd6', '#3da2a5', '#a89677', '#1e401e',
+];
+
+const hexToRgb = (hex: string) => {
+  const n = parseInt(hex.replace('#', ''), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+/**
+ * Closest AE label index (1-16) to a hex color
+ */
+export const nearestAeLabel = (hex: string): number => {
+  const [r, g, b] = hexToRgb(hex);
+  let best = 0;
+  let bestDist = Infinity;
+  AE_LABEL_COLORS.forEach((c, i) => {
+    const [cr, cg, cb] = hexToRgb(c);
+    const dist = (r - cr) ** 2 + (g - cg) ** 2 + (b - cb) ** 2;
+    if (dist < bestDist) { bestDist = dist; best = i; }
+  });
+  return best + 1;
+};
+
+export interface AeController {
+  name: string; // Layer name, reused to find the controller on later runs
+  channels: ChannelState[];
+}
+
+/**
+ * Groups channels into one controller per source file: master channels go on
+ * MOTION_CONTROLLER, each stem gets MOTION_CONTROLLER <stem name>. Separated
+ * parts get their own, e.g. MOTION_CONTROLLER percussive.
+ */
+export const groupControllers = (
+  channels: ChannelState[],
+  rawChannels: RawChannelData[],
+  files: AudioFileMeta[]
+): AeController[] => {
+  const groups = new Map<string, ChannelState[]>();
+  channels.forEach(ch => {
+    const { base, part } = splitSourceId(rawChannels.find(r => r.id === ch.id)?.sourceId ?? 'master');
+    const file = files.find(f => f.id === base);
+    const owner = base === 'master' || !file || file.type === 'master' ? CONTROLLER_NAME : `${CONTROLLER_NAME} ${file.name}`;
+    const name = part ? `${owner} ${part}` : owner;
+    if (!groups.has(name)) groups.set(name, []);
+    groups.get(name)!.push(ch);
+  });
+  return Array.from(groups, ([name, list]) => ({ name, channels: list }));
+};
+
+/**
+ * Generates the ExtendScript that builds (or updates) one controller null per
+ * source. Expression mode reads the exported JSON every frame; keyframe mode
+ * bakes the processed values so the comp doesn't depend on the JSON at all.
+ * Re-running the script reuses existing controllers and sliders by name.
+ */
+export const buildAeScript = (
+  controllers: AeController[],
+  config: AnalysisConfig,
+  duration: number,
+  jsonName: string,
+  options: AeScriptOptions,
+  sections: Section[] = []
+): string => {
+  const baked = options.mode === 'keyframes';
+
+  let script = `
+        {
+            app.beginUndoGroup("Update Motion Controllers");
+            var proj = app.project;
+            var offset = ${options.layerOffset};
+            var jsonItem = null;
+        `;
+
+  if (!baked) {
+    script += `
+            // 1. Find JSON Footage Item
+            // Check selection first
+            if (proj.selection.length > 0) {
+                if (proj.selection[0].name.indexOf(".json") !== -1) {
+                    jsonItem = proj.selection[0];
+                }
+            }
+
+            if (!jsonItem) {
+                // Try to find by name
+                for (var i = 1; i <= proj.numItems; i++) {
+                    if (proj.item(i).name === ${JSON.stringify(jsonName)}) {
+                        jsonItem = proj.item(i);
+                        break;
+                    }
+                }
+            }
+        `;
+  }
+
+  script += `
+            function run() {
+                ${baked ? '' : `if (!jsonItem) {
+                    alert("Please import and select '${jsonName}' in the project bin before running this script.");
+                    return;
+                }`}
+
+                // 2. Get/Create Comp: the active one, else the one an earlier run created
+                var comp = proj.activeItem;
+                if (!comp || !(comp instanceof CompItem)) {
+                    comp = null;
+                    for (var c = 1; c <= proj.numItems; c++) {
+                        if (proj.item(c) instanceof CompItem && proj.item(c).name === ${JSON.stringify(DATA_COMP_NAME)}) {
+                            comp = proj.item(c);
+                            break;
+                        }
+                    }
+                    if (comp) {
+                        comp.duration = Math.max(comp.duration, offset + ${duration});
+                    } else {
+                        comp = proj.items.addComp(${JSON.stringify(DATA_COMP_NAME)}, ${options.compWidth}, ${options.compHeight}, 1, offset + ${duration}, ${config.fps});
+                        ${supportsDropFrame(config.fps) ? `comp.dropFrame = ${config.dropFrame};` : ''}
+                    }
+                    comp.openInViewer();
+                }
+
+                // 3. Find or create a controller, so re-running updates in place
+                function controller(name, label) {
+                    var layer = comp.layers.byName(name);
+                    if (!layer) {
+                        layer = comp.layers.addNull();
+                        layer.name = name;
+                    }
+                    layer.label = label;
+                    layer.startTime = offset;
+                    layer.outPoint = offset + ${duration};
+                    return layer;
+                }
+
+                function slider(layer, name) {
+                    var s = layer.Effects.property(name);
+                    if (!s) {
+                        s = layer.Effects.addProperty("ADBE Slider Control");
+                        s.name = name;
+                    }
+                    var p = s.property(1);
+                    p.expression = "";
+                    while (p.numKeys > 0) p.removeKey(1);
+                    return p;
+                }
+
+                // 4. Sliders, mapping 0-1 onto each channel's output range
+                var layer;
+        `;
+
+  controllers.forEach(ctrl => {
+    const label = nearestAeLabel(ctrl.channels[0]?.color ?? '#e8920d');
+    script += `
+                layer = controller(${JSON.stringify(ctrl.name)}, ${label});
+            `;
+
+    ctrl.channels.forEach(ch => {
+      const name = JSON.stringify(ch.label || ch.id);
+      const min = ch.outputMin;
+      const span = ch.outputMax - ch.outputMin;
+
+      if (baked) {
+        const keys = reduceKeyframes(ch.processedValues, options.tolerance);
+        const times = keys.map(f => Number((f / config.fps).toFixed(5)));
+        const values = keys.map(f => Number((min + ch.processedValues[f] * span).toFixed(3)));
+        script += `
+                (function (p, times) {
+                    for (var k = 0; k < times.length; k++) times[k] += offset;
+                    p.setValuesAtTimes(times, ${JSON.stringify(values)});
+                })(slider(layer, ${name}), ${JSON.stringify(times)});
+            `;
+      } else {
+        script += `
+                slider(layer, ${name}).expression = 'try { ${min} + footage("' + jsonItem.name + '").sourceData.channels["${ch.id}"][Math.max(0, timeToFrames(time - thisLayer.startTime, ${config.fps}))] * ${span} } catch(e) { ${min}; }';
+            `;
+      }
+    });
+  });
+
+  if (sections.length) {
+    const markers = sections.map(s => ({
+      label: s.label,
+      start: Number(s.start.toFixed(5)),
+      length: Number((s.end - s.start).toFixed(5)),
+    }));
+    script += `
+                // 5. Section markers, replacing those from earlier runs. Comp
+                // markers need CC 2017+; older versions mark the controller layer,
+                // if there is one
+                (function (sections) {
+                    var markers = comp.markerProperty || (layer && layer.property("Marker"));
+                    if (!markers) return;
+                    for (var k = markers.numKeys; k >= 1; k--) {
+                        var params = markers.keyValue(k).getParameters();
+                        if (params && params.motionSignal === "section") markers.removeKey(k);
+                    }
+                    for (var s = 0; s < sections.length; s++) {
+                        var m = new MarkerValue(sections[s].label);
+                        m.duration = sections[s].length;
+                        m.setParameters({ motionSignal: "section" });
+                        markers.setValueAtTime(offset + sections[s].start, m);
+                    }
+                })(${JSON.stringify(markers)});
+            `;
+  }
+
+  script += `
+            }
+
+            run();
+            app.endUndoGroup();
+        }
+        `;
+  return script;
+};
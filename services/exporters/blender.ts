@@ -0,0 +1,100 @@
+import { AnalysisConfig, ChannelState } from '../../types';
+import { reduceKeyframes } from './keyframes';
+import { formatFps } from '../timecode';
+
+export interface BlenderScriptOptions {
+  tolerance: number; // Max keyframe reduction error, in 0-1 signal units
+}
+
+export const DEFAULT_BLENDER_OPTIONS: BlenderScriptOptions = { tolerance: 0.005 };
+
+export const BLENDER_SCRIPT_NAME = 'motionsignal_controller.py';
+
+const CONTROLLER_NAME = 'MOTION_CONTROLLER';
+
+/**
+ * Generates a self-contained Blender Python script. It puts one custom
+ * property per channel on the active object (or a MOTION_CONTROLLER empty)
+ * and bakes linear F-curves, converting data frames to the scene's frame rate.
+ * Re-running the script replaces the keys rather than stacking new curves.
+ */
+export const buildBlenderScript = (
+  channels: ChannelState[],
+  config: AnalysisConfig,
+  options: BlenderScriptOptions
+): string => {
+  const data = channels.map(ch => {
+    const keys = reduceKeyframes(ch.processedValues, options.tolerance);
+    const span = ch.outputMax - ch.outputMin;
+    return `    (${JSON.stringify(ch.label || ch.id)}, ${ch.outputMin}, ${ch.outputMax}, ${JSON.stringify(
+      keys.map(f => Number((f / config.fps).toFixed(5)))
+    )}, ${JSON.stringify(keys.map(f => Number((ch.outputMin + ch.processedValues[f] * span).toFixed(4))))}),`;
+  });
+
+  return `# MotionSignal controller, generated ${new Date().toISOString()}
+# ${config.bpm} BPM, ${formatFps(config.fps)} fps source data. Run from Blender's Text Editor (Alt+P)
+import bpy
+
+CONTROLLER_NAME = ${JSON.stringify(CONTROLLER_NAME)}
+
+# (property, min, max, times in seconds, values)
+CHANNELS = [
+${data.join('\n')}
+]
+
+
+def get_controller():
+    obj = bpy.context.active_object or bpy.data.objects.get(CONTROLLER_NAME)
+    if obj is None:
+        obj = bpy.data.objects.new(CONTROLLER_NAME, None)
+        obj.empty_display_type = "PLAIN_AXES"
+        bpy.context.scene.collection.objects.link(obj)
+    return obj
+
+
+def get_fcurve(obj, path, frame):
+    # keyframe_insert creates the action/slot/curve on every Blender version
+    obj.keyframe_insert(data_path=path, frame=frame)
+    action = obj.animation_data.action
+    if hasattr(action, "fcurves"):
+        return action.fcurves.find(path)
+    from bpy_extras import anim_utils
+    bag = anim_utils.action_get_channelbag_for_slot(action, obj.animation_data.action_slot)
+    return bag.fcurves.find(path)
+
+
+def run():
+    scene = bpy.context.scene
+    scene_fps = scene.render.fps / scene.render.fps_base
+    start = scene.frame_start
+    obj = get_controller()
+    last_frame = start
+
+    for name, lo, hi, times, values in CHANNELS:
+        # JSON writes whole numbers as ints; an int first value would make an INT property
+        lo, hi = float(min(lo, hi)), float(max(lo, hi))
+        obj[name] = float(values[0]) if values else 0.0
+        obj.id_properties_ui(name).update(min=lo, max=hi, soft_min=lo, soft_max=hi)
+        if not times:
+            continue
+
+        path = '["%s"]' % name.replace('"', '\\\\"')
+        fcurve = get_fcurve(obj, path, start)
+        fcurve.keyframe_points.clear()
+        fcurve.keyframe_points.add(len(times))
+        co = []
+        for t, v in zip(times, values):
+            co.extend((start + t * scene_fps, float(v)))
+        fcurve.keyframe_points.foreach_set("co", co)
+        for point in fcurve.keyframe_points:
+            point.interpolation = "LINEAR"
+        fcurve.update()
+        last_frame = max(last_frame, co[-2])
+
+    scene.frame_end = max(scene.frame_end, int(last_frame + 0.5))
+    print("MotionSignal: %d channels on %s" % (len(CHANNELS), obj.name))
+
+
+run()
+`;
+};
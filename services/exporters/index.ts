@@ -0,0 +1,115 @@
+import { AnalysisConfig, AudioFileMeta, ChannelState, RawChannelData } from '../../types';
+import { downloadBlob } from './download';
+import { buildJsonExport } from './json';
+import { buildAeScript, groupControllers, AeScriptOptions, AE_SCRIPT_NAME } from './aeScript';
+import { buildMidiFile, MidiLaneOptions, MIDI_EXTENSION } from './midi';
+import { buildBlenderScript, BlenderScriptOptions, BLENDER_SCRIPT_NAME } from './blender';
+import { buildDelimited, buildNukeChan, buildAeKeyframeText } from './tabular';
+import { sectionsOf } from '../structure';
+
+/**
+ * Everything an exporter may read. Exporters are pure: they turn the context
+ * into files and leave delivery (download, clipboard) to the pipeline.
+ */
+export interface ExportContext {
+  channels: ChannelState[];
+  rawChannels: RawChannelData[];
+  files: AudioFileMeta[];
+  config: AnalysisConfig;
+  duration: number;
+  selectedChannelId: string | null;
+  ae: AeScriptOptions;
+  midiLanes: Record<string, MidiLaneOptions>;
+  blender: BlenderScriptOptions;
+}
+
+export interface ExportFile {
+  name: string;
+  content: BlobPart;
+  type: string;
+}
+
+export type ExportFormat = 'ae' | 'json' | 'midi' | 'blender' | 'csv' | 'tsv' | 'nuke' | 'aeKeyframes';
+
+export interface ExporterDefinition {
+  label: string;
+  build: (ctx: ExportContext) => ExportFile[];
+}
+
+const baseName = (ctx: ExportContext) => `motion_data_${ctx.config.bpm}bpm`;
+
+// File-name-safe channel label
+const slug = (ch: ChannelState) => (ch.label || ch.id).replace(/[^\w.-]+/g, '_');
+
+const selectedChannel = (ctx: ExportContext) =>
+  ctx.channels.find(ch => ch.id === ctx.selectedChannelId) ?? ctx.channels[0];
+
+export const EXPORTERS: Record<ExportFormat, ExporterDefinition> = {
+  json: {
+    label: 'JSON',
+    build: (ctx) => [{ name: `${baseName(ctx)}.json`, content: buildJsonExport(ctx), type: 'application/json' }],
+  },
+  ae: {
+    label: 'After Effects script',
+    build: (ctx) => {
+      // The expression controller reads the JSON; baked scripts are self-contained
+      const data = ctx.ae.mode === 'expression' ? EXPORTERS.json.build(ctx) : [];
+      const jsonName = `${baseName(ctx)}.json`;
+      const script = buildAeScript(groupControllers(ctx.channels, ctx.rawChannels, ctx.files), ctx.config, ctx.duration, jsonName, ctx.ae, sectionsOf(ctx.rawChannels));
+      return [...data, { name: AE_SCRIPT_NAME, content: script, type: 'text/javascript' }];
+    },
+  },
+  midi: {
+    label: 'MIDI',
+    build: (ctx) => [{
+      name: `${baseName(ctx)}${MIDI_EXTENSION}`,
+      content: buildMidiFile(ctx.channels, ctx.rawChannels, ctx.config, ctx.midiLanes),
+      type: 'audio/midi',
+    }],
+  },
+  blender: {
+    label: 'Blender script',
+    build: (ctx) => [{ name: BLENDER_SCRIPT_NAME, content: buildBlenderScript(ctx.channels, ctx.config, ctx.blender), type: 'text/x-python' }],
+  },
+  csv: {
+    label: 'CSV',
+    build: (ctx) => [{ name: `${baseName(ctx)}.csv`, content: buildDelimited(ctx.channels, ctx.config, ','), type: 'text/csv' }],
+  },
+  tsv: {
+    label: 'TSV',
+    build: (ctx) => [{ name: `${baseName(ctx)}.tsv`, content: buildDelimited(ctx.channels, ctx.config, '\t'), type: 'text/tab-separated-values' }],
+  },
+  nuke: {
+    label: 'Nuke .chan',
+    build: (ctx) => ctx.channels.map(ch => ({ name: `${slug(ch)}.chan`, content: buildNukeChan(ch), type: 'text/plain' })),
+  },
+  aeKeyframes: {
+    label: 'AE keyframe data',
+    build: (ctx) => {
+      const ch = selectedChannel(ctx);
+      return ch ? [{ name: `${slug(ch)}_keyframes.txt`, content: buildAeKeyframeText(ch, ctx.config), type: 'text/plain' }] : [];
+    },
+  },
+};
+
+// Browsers drop rapid back-to-back downloads, so multi-file exports are spaced out
+const DOWNLOAD_SPACING_MS = 400;
+
+/**
+ * Builds the given format and downloads every resulting file
+ */
+export const runExport = (format: ExportFormat, ctx: ExportContext) => {
+  if (!ctx.channels.length) return;
+  EXPORTERS[format].build(ctx).forEach((file, i) => {
+    setTimeout(() => downloadBlob(file.content, file.name, file.type), i * DOWNLOAD_SPACING_MS);
+  });
+};
+
+/**
+ * Builds a single-file text format and puts it on the clipboard
+ */
+export const copyExport = async (format: ExportFormat, ctx: ExportContext) => {
+  const [file] = EXPORTERS[format].build(ctx);
+  if (!file || typeof file.content !== 'string') return;
+  await navigator.clipboard.writeText(file.content);
+};
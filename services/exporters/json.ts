@@ -0,0 +1,47 @@
+import { ExportContext } from './index';
+import { formatTimecode } from '../timecode';
+import { sectionsOf } from '../structure';
+
+export const roundValues = (values: ArrayLike<number>, digits = 4): number[] => {
+  const out: number[] = new Array(values.length);
+  for (let i = 0; i < values.length; i++) out[i] = Number(values[i].toFixed(digits));
+  return out;
+};
+
+/**
+ * The JSON data file read by the AE expression controller. Channels hold
+ * processed 0-1 values per frame; frame N starts at N / fps seconds. Onsets
+ * hold event times in seconds; estimates hold whole-source results like keys;
+ * sections hold the song structure in seconds.
+ */
+export const buildJsonExport = (ctx: ExportContext): string => {
+  const exportObj = {
+    metadata: {
+      fps: ctx.config.fps,
+      dropFrame: ctx.config.dropFrame,
+      frameCount: ctx.channels[0]?.processedValues.length ?? 0,
+      windowAlignment: ctx.config.windowAlignment,
+      windowFrames: ctx.config.windowFrames,
+      bpm: ctx.config.bpm,
+      duration: ctx.duration,
+      durationTimecode: formatTimecode(ctx.duration, ctx.config.fps, ctx.config.dropFrame),
+      createdAt: new Date().toISOString(),
+      generator: "MotionSignal v1.0"
+    },
+    channels: {} as Record<string, number[]>,
+    onsets: {} as Record<string, number[]>,
+    estimates: {} as Record<string, string>,
+    sections: sectionsOf(ctx.rawChannels)
+  };
+
+  ctx.channels.forEach(ch => {
+    exportObj.channels[ch.id] = roundValues(ch.processedValues);
+  });
+
+  ctx.rawChannels.forEach(raw => {
+    if (raw.events) exportObj.onsets[raw.id] = raw.events;
+    if (raw.estimate) exportObj.estimates[raw.id] = raw.estimate;
+  });
+
+  return JSON.stringify(exportObj);
+};
@@ -0,0 +1,41 @@
+/**
+ * Ramer-Douglas-Peucker reduction over (frame, value) pairs. Returns the frame
+ * indices to keep so that linear interpolation between them stays within
+ * `tolerance` of every original value. First and last frames are always kept.
+ */
+export const reduceKeyframes = (values: ArrayLike<number>, tolerance: number): number[] => {
+  const n = values.length;
+  if (n <= 2) return Array.from({ length: n }, (_, i) => i);
+
+  const keep = new Uint8Array(n);
+  keep[0] = 1;
+  keep[n - 1] = 1;
+
+  // Iterative to stay clear of the call stack limit on long tracks
+  const stack: [number, number][] = [[0, n - 1]];
+  while (stack.length) {
+    const [a, b] = stack.pop()!;
+    if (b - a < 2) continue;
+
+    const va = values[a];
+    const slope = (values[b] - va) / (b - a);
+    let maxErr = -1;
+    let maxIdx = -1;
+    for (let i = a + 1; i < b; i++) {
+      const err = Math.abs(values[i] - (va + slope * (i - a)));
+      if (err > maxErr) {
+        maxErr = err;
+        maxIdx = i;
+      }
+    }
+
+    if (maxErr > tolerance) {
+      keep[maxIdx] = 1;
+      stack.push([a, maxIdx], [maxIdx, b]);
+    }
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < n; i++) if (keep[i]) result.push(i);
+  return result;
+};
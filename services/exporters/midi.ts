@@ -0,0 +1,120 @@
+import { AnalysisConfig, ChannelState, RawChannelData } from '../../types';
+
+export type MidiLaneMode = 'off' | 'cc' | 'note';
+
+export interface MidiLaneOptions {
+  mode: MidiLaneMode;
+  number: number; // CC number (cc mode) or note number (note mode), 0-127
+  midiChannel: number; // 1-16
+}
+
+export const DEFAULT_MIDI_CC = 20; // First of the undefined controllers 20-31
+export const DEFAULT_MIDI_NOTE = 36; // C1, the GM kick
+
+export const MIDI_EXTENSION = '.mid';
+
+const PPQ = 480;
+const NOTE_LENGTH_TICKS = PPQ / 4; // 1/16 note
+
+interface MidiEvent {
+  tick: number;
+  order: number; // Tie-break at equal ticks: note-offs before note-ons
+  bytes: number[];
+}
+
+const clamp7 = (v: number) => Math.max(0, Math.min(127, Math.round(v)));
+
+// Variable-length quantity, 7 bits per byte, high bit = continuation
+const vlq = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+};
+
+const u32 = (n: number) => [(n >>> 24) & 255, (n >>> 16) & 255, (n >>> 8) & 255, n & 255];
+
+const textMeta = (type: number, text: string): number[] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+  return [0xff, type, ...vlq(bytes.length), ...bytes];
+};
+
+const encodeTrack = (name: string, events: MidiEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const data: number[] = [0x00, ...textMeta(0x03, name)];
+  let last = 0;
+  sorted.forEach(e => {
+    data.push(...vlq(e.tick - last), ...e.bytes);
+    last = e.tick;
+  });
+  data.push(0x00, 0xff, 0x2f, 0x00);
+  return [0x4d, 0x54, 0x72, 0x6b, ...u32(data.length), ...data];
+};
+
+/**
+ * Builds a Standard MIDI File (format 1). Track 0 carries tempo and time
+ * signature; every enabled channel gets its own track, either as a CC lane
+ * sampled at the project frame rate or, for channels with onset events, as
+ * note-on/off pairs whose velocity is the processed value at the onset
+ * (onsets the chain pulls to zero are dropped).
+ */
+export const buildMidiFile = (
+  channels: ChannelState[],
+  rawChannels: RawChannelData[],
+  config: AnalysisConfig,
+  lanes: Record<string, MidiLaneOptions>
+): Uint8Array => {
+  const ticksPerSecond = (config.bpm / 60) * PPQ;
+  const tickAt = (seconds: number) => Math.max(0, Math.round(seconds * ticksPerSecond));
+
+  const microsPerQuarter = Math.round(60_000_000 / config.bpm);
+  const tracks: number[][] = [
+    encodeTrack('MotionSignal', [
+      { tick: 0, order: 0, bytes: [0xff, 0x51, 0x03, (microsPerQuarter >> 16) & 255, (microsPerQuarter >> 8) & 255, microsPerQuarter & 255] },
+      { tick: 0, order: 0, bytes: [0xff, 0x58, 0x04, config.timeSignature, 2, 24, 8] },
+    ]),
+  ];
+
+  channels.forEach(ch => {
+    const lane = lanes[ch.id];
+    if (!lane || lane.mode === 'off') return;
+    const status = (lane.midiChannel - 1) & 0x0f;
+    const number = clamp7(lane.number);
+    const values = ch.processedValues;
+    const events: MidiEvent[] = [];
+
+    if (lane.mode === 'cc') {
+      let previous = -1;
+      for (let f = 0; f < values.length; f++) {
+        const v = clamp7(values[f] * 127);
+        if (v === previous) continue;
+        events.push({ tick: tickAt(f / config.fps), order: 1, bytes: [0xb0 | status, number, v] });
+        previous = v;
+      }
+    } else {
+      const times = rawChannels.find(r => r.id === ch.id)?.events ?? [];
+      // Onsets that quantize to the same tick become one note at the loudest
+      // velocity; overlapping on/off pairs of one pitch confuse most DAWs
+      const notes: { tick: number; velocity: number }[] = [];
+      times.forEach(time => {
+        const frame = Math.min(values.length - 1, Math.floor(time * config.fps));
+        const velocity = clamp7((values[frame] ?? 0) * 127);
+        if (velocity === 0) return;
+        const tick = tickAt(time);
+        const last = notes[notes.length - 1];
+        if (last && last.tick === tick) last.velocity = Math.max(last.velocity, velocity);
+        else notes.push({ tick, velocity });
+      });
+      notes.forEach(({ tick, velocity }, i) => {
+        const next = notes[i + 1]?.tick ?? Infinity;
+        const off = tick + Math.max(1, Math.min(NOTE_LENGTH_TICKS, next - tick));
+        events.push({ tick, order: 1, bytes: [0x90 | status, number, velocity] });
+        events.push({ tick: off, order: 0, bytes: [0x80 | status, number, 0] });
+      });
+    }
+
+    tracks.push(encodeTrack(ch.label || ch.id, events));
+  });
+
+  const header = [0x4d, 0x54, 0x68, 0x64, ...u32(6), 0, 1, (tracks.length >> 8) & 255, tracks.length & 255, (PPQ >> 8) & 255, PPQ & 255];
+  return new Uint8Array([...header, ...tracks.flat()]);
+};
@@ -0,0 +1,58 @@
+import { AnalysisConfig, ChannelState } from '../../types';
+import { formatFps } from '../timecode';
+
+// Output-range mapping used by the motion-tool formats (same as the AE sliders)
+const mapped = (ch: ChannelState, frame: number) => ch.outputMin + ch.processedValues[frame] * (ch.outputMax - ch.outputMin);
+
+const frameCount = (channels: ChannelState[]) => channels.reduce((n, ch) => Math.max(n, ch.processedValues.length), 0);
+
+const quoteCell = (cell: string, delimiter: string) =>
+  /["\n\r]/.test(cell) || cell.includes(delimiter) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+/**
+ * Spreadsheet table: frame, time and one column of processed 0-1 values per
+ * channel, headed by the channel label.
+ */
+export const buildDelimited = (channels: ChannelState[], config: AnalysisConfig, delimiter: ',' | '\t'): string => {
+  const header = ['frame', 'time', ...channels.map(ch => ch.label || ch.id)].map(c => quoteCell(c, delimiter));
+  const rows = [header.join(delimiter)];
+  const n = frameCount(channels);
+  for (let f = 0; f < n; f++) {
+    const cells = [String(f), (f / config.fps).toFixed(5)];
+    channels.forEach(ch => cells.push(f < ch.processedValues.length ? ch.processedValues[f].toFixed(4) : ''));
+    rows.push(cells.join(delimiter));
+  }
+  return rows.join('\n') + '\n';
+};
+
+/**
+ * Nuke .chan for a single-value knob: one "frame value" line per frame, with
+ * Nuke's 1-based frame numbers.
+ */
+export const buildNukeChan = (ch: ChannelState): string => {
+  const lines: string[] = [];
+  for (let f = 0; f < ch.processedValues.length; f++) lines.push(`${f + 1} ${mapped(ch, f).toFixed(5)}`);
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * After Effects "Keyframe Data" clipboard text. Pasting it onto a selected
+ * one-dimensional property keys every frame.
+ */
+export const buildAeKeyframeText = (ch: ChannelState, config: AnalysisConfig): string => {
+  const lines = [
+    'Adobe After Effects 8.0 Keyframe Data',
+    '',
+    `\tUnits Per Second\t${formatFps(config.fps)}`,
+    '\tSource Width\t100',
+    '\tSource Height\t100',
+    '\tSource Pixel Aspect Ratio\t1',
+    '\tComp Pixel Aspect Ratio\t1',
+    '',
+    'Effects\tSlider Control #1\tSlider #2',
+    '\tFrame\t',
+  ];
+  for (let f = 0; f < ch.processedValues.length; f++) lines.push(`\t${f}\t${mapped(ch, f).toFixed(4)}\t`);
+  lines.push('', '', 'End of Keyframe Data', '');
+  return lines.join('\r\n');
+};
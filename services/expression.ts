@@ -0,0 +1,264 @@
+import { AnalysisConfig } from '../types';
+
+/**
+ * Small, safe expression language for derived channels. Evaluated once per
+ * frame; nothing reaches the JS runtime beyond the whitelisted functions.
+ *
+ *   low * transient
+ *   max(kick_onset, snare_onset)
+ *   clamp(lerp(low, high, bar), 0.2, 1)
+ *   beat < 0.25 ? energy : 0
+ *   ch("drums.wav_low") - raw("drums.wav_low")
+ *
+ * Bare identifiers are processed channel values; ch("id") / raw("id") take any
+ * channel id, raw("id") reading the unprocessed analysis values. Built-ins:
+ * time (s), frame, beat and bar (0-1 phase), pi.
+ */
+
+export interface ChannelRef {
+  id: string;
+  raw: boolean;
+}
+
+export interface CompiledExpression {
+  source: string;
+  refs: ChannelRef[]; // Unique, in first-use order
+  evaluate: (inputs: ArrayLike<number>[], length: number, config: AnalysisConfig) => Float32Array;
+}
+
+interface Frame {
+  frame: number;
+  time: number;
+  beat: number;
+  bar: number;
+  inputs: ArrayLike<number>[];
+}
+
+type Node = (f: Frame) => number;
+
+type Token =
+  | { kind: 'num'; value: number; pos: number }
+  | { kind: 'id'; value: string; pos: number }
+  | { kind: 'str'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number };
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], fn: Math.min },
+  max: { arity: [1, Infinity], fn: Math.max },
+  abs: { arity: [1, 1], fn: Math.abs },
+  clamp: { arity: [3, 3], fn: (x, lo, hi) => Math.max(lo, Math.min(hi, x)) },
+  lerp: { arity: [3, 3], fn: (a, b, t) => a + (b - a) * t },
+  step: { arity: [2, 2], fn: (edge, x) => (x >= edge ? 1 : 0) },
+  smoothstep: {
+    arity: [3, 3],
+    fn: (a, b, x) => {
+      const t = Math.max(0, Math.min(1, (x - a) / (b - a || 1)));
+      return t * t * (3 - 2 * t);
+    },
+  },
+  pow: { arity: [2, 2], fn: Math.pow },
+  sqrt: { arity: [1, 1], fn: (x) => Math.sqrt(Math.max(0, x)) },
+  sin: { arity: [1, 1], fn: Math.sin },
+  cos: { arity: [1, 1], fn: Math.cos },
+  floor: { arity: [1, 1], fn: Math.floor },
+  ceil: { arity: [1, 1], fn: Math.ceil },
+  round: { arity: [1, 1], fn: Math.round },
+};
+
+const VARIABLES: Record<string, Node> = {
+  time: f => f.time,
+  frame: f => f.frame,
+  beat: f => f.beat,
+  bar: f => f.bar,
+  pi: () => Math.PI,
+};
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '(', ')', ',', '?', ':', '<', '>', '!'];
+
+const tokenize = (src: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) { i++; continue; }
+
+    const num = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(src.slice(i));
+    if (num) {
+      tokens.push({ kind: 'num', value: parseFloat(num[0]), pos: i });
+      i += num[0].length;
+      continue;
+    }
+
+    const id = /^[A-Za-z_]\w*/.exec(src.slice(i));
+    if (id) {
+      tokens.push({ kind: 'id', value: id[0], pos: i });
+      i += id[0].length;
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      const end = src.indexOf(c, i + 1);
+      if (end === -1) throw new Error(`Unterminated string at ${i + 1}`);
+      tokens.push({ kind: 'str', value: src.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => src.startsWith(o, i));
+    if (!op) throw new Error(`Unexpected "${c}" at ${i + 1}`);
+    tokens.push({ kind: 'op', value: op, pos: i });
+    i += op.length;
+  }
+  return tokens;
+};
+
+const BINARY: Record<string, (a: number, b: number) => number> = {
+  '+': (a, b) => a + b,
+  '-': (a, b) => a - b,
+  '*': (a, b) => a * b,
+  '/': (a, b) => (b === 0 ? 0 : a / b),
+  '%': (a, b) => (b === 0 ? 0 : a % b),
+  '<': (a, b) => +(a < b),
+  '>': (a, b) => +(a > b),
+  '<=': (a, b) => +(a <= b),
+  '>=': (a, b) => +(a >= b),
+  '==': (a, b) => +(a === b),
+  '!=': (a, b) => +(a !== b),
+  '&&': (a, b) => +(!!a && !!b),
+  '||': (a, b) => +(!!a || !!b),
+};
+
+// Lowest to highest precedence
+const LEVELS = [['||'], ['&&'], ['==', '!='], ['<', '>', '<=', '>='], ['+', '-'], ['*', '/', '%']];
+
+/**
+ * Parses an expression into a per-frame evaluator. Throws with a
+ * human-readable message (including the 1-based column) on bad input.
+ */
+export const compileExpression = (source: string): CompiledExpression => {
+  const tokens = tokenize(source);
+  const refs: ChannelRef[] = [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const where = () => (peek() ? `at ${peek().pos + 1}` : 'at end');
+  const isOp = (value: string) => peek()?.kind === 'op' && peek().value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new Error(`Expected "${value}" ${where()}`);
+    pos++;
+  };
+
+  const refNode = (id: string, raw: boolean): Node => {
+    let index = refs.findIndex(r => r.id === id && r.raw === raw);
+    if (index === -1) index = refs.push({ id, raw }) - 1;
+    return f => {
+      const values = f.inputs[index];
+      return f.frame < values.length ? values[f.frame] : 0;
+    };
+  };
+
+  const parseArgs = (): Node[] => {
+    expect('(');
+    const args: Node[] = [];
+    while (!isOp(')')) {
+      args.push(parseTernary());
+      if (!isOp(',')) break;
+      pos++;
+    }
+    expect(')');
+    return args;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+    pos++;
+
+    if (token.kind === 'num') return () => token.value;
+
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = parseTernary();
+      expect(')');
+      return inner;
+    }
+
+    if (token.kind === 'id') {
+      const name = token.value;
+      if ((name === 'ch' || name === 'raw') && isOp('(')) {
+        pos++;
+        const arg = peek();
+        if (arg?.kind !== 'str') throw new Error(`${name}() takes a quoted channel id ${where()}`);
+        pos++;
+        expect(')');
+        return refNode(arg.value, name === 'raw');
+      }
+      if (isOp('(')) {
+        const def = FUNCTIONS[name];
+        if (!def) throw new Error(`Unknown function "${name}" at ${token.pos + 1}`);
+        const args = parseArgs();
+        const [lo, hi] = def.arity;
+        if (args.length < lo || args.length > hi) {
+          throw new Error(`${name}() takes ${lo === hi ? lo : `${lo}+`} argument${lo === 1 && hi === 1 ? '' : 's'}`);
+        }
+        return f => def.fn(...args.map(a => a(f)));
+      }
+      return VARIABLES[name] ?? refNode(name, false);
+    }
+
+    throw new Error(`Unexpected "${token.value}" at ${token.pos + 1}`);
+  };
+
+  const parseUnary = (): Node => {
+    if (isOp('-')) { pos++; const inner = parseUnary(); return f => -inner(f); }
+    if (isOp('+')) { pos++; return parseUnary(); }
+    if (isOp('!')) { pos++; const inner = parseUnary(); return f => +!inner(f); }
+    return parsePrimary();
+  };
+
+  const parseLevel = (level: number): Node => {
+    if (level === LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    while (peek()?.kind === 'op' && LEVELS[level].includes(peek().value as string)) {
+      const op = BINARY[peek().value as string];
+      pos++;
+      const a = left;
+      const b = parseLevel(level + 1);
+      left = f => op(a(f), b(f));
+    }
+    return left;
+  };
+
+  const parseTernary = (): Node => {
+    const cond = parseLevel(0);
+    if (!isOp('?')) return cond;
+    pos++;
+    const yes = parseTernary();
+    expect(':');
+    const no = parseTernary();
+    return f => (cond(f) ? yes(f) : no(f));
+  };
+
+  if (!tokens.length) throw new Error('Expression is empty');
+  const root = parseTernary();
+  if (pos < tokens.length) throw new Error(`Unexpected "${peek().value}" at ${peek().pos + 1}`);
+
+  const evaluate = (inputs: ArrayLike<number>[], length: number, config: AnalysisConfig) => {
+    const out = new Float32Array(length);
+    const secondsPerBeat = 60 / config.bpm;
+    const wrap = (x: number) => x - Math.floor(x);
+    const frame: Frame = { frame: 0, time: 0, beat: 0, bar: 0, inputs };
+    for (let i = 0; i < length; i++) {
+      const beats = (i / config.fps - config.beatOffset) / secondsPerBeat;
+      frame.frame = i;
+      frame.time = i / config.fps;
+      frame.beat = wrap(beats);
+      frame.bar = wrap(beats / config.timeSignature);
+      const v = root(frame);
+      // Channels stay in 0-1; scale with the channel's output range on export
+      out[i] = Number.isFinite(v) ? Math.max(0, Math.min(1, v)) : 0;
+    }
+    return out;
+  };
+
+  return { source, refs, evaluate };
+};
@@ -0,0 +1,99 @@
+/**
+ * In-place iterative radix-2 FFT. `re` and `im` must share a power-of-two length.
+ */
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+
+  // Bit reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const theta = (-2 * Math.PI) / size;
+    const wRe = Math.cos(theta);
+    const wIm = Math.sin(theta);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+export const hannWindow = (size: number): Float32Array => {
+  const w = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return w;
+};
+
+export interface Spectrogram {
+  fftSize: number;
+  sampleRate: number;
+  binHz: number;
+  frames: Float32Array[]; // Magnitude per bin (fftSize / 2 + 1), full-scale sine ~ 1
+}
+
+/**
+ * Computes one Hann-windowed magnitude spectrum per video frame.
+ * `frameCenter` returns the sample index each analysis window is centered on.
+ */
+export const computeSpectrogram = (
+  mono: Float32Array,
+  sampleRate: number,
+  totalFrames: number,
+  frameCenter: (frame: number) => number,
+  fftSize = 4096,
+  onProgress?: (fraction: number) => void
+): Spectrogram => {
+  const window = hannWindow(fftSize);
+  let windowSum = 0;
+  for (let i = 0; i < fftSize; i++) windowSum += window[i];
+  // Amplitude correction so a full-scale sine peaks near 1
+  const scale = 2 / windowSum;
+
+  const bins = fftSize / 2 + 1;
+  const re = new Float32Array(fftSize);
+  const im = new Float32Array(fftSize);
+  const frames: Float32Array[] = new Array(totalFrames);
+
+  for (let f = 0; f < totalFrames; f++) {
+    if (onProgress && f % 500 === 0) onProgress(f / totalFrames);
+    const start = Math.round(frameCenter(f)) - fftSize / 2;
+    for (let i = 0; i < fftSize; i++) {
+      const idx = start + i;
+      re[i] = idx >= 0 && idx < mono.length ? mono[idx] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const mags = new Float32Array(bins);
+    for (let k = 0; k < bins; k++) {
+      mags[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]) * scale;
+    }
+    frames[f] = mags;
+  }
+
+  return { fftSize, sampleRate, binHz: sampleRate / fftSize, frames };
+};
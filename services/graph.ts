@@ -0,0 +1,45 @@
+/**
+ * Orders nodes so every node comes after the nodes it depends on.
+ * Dependencies outside the graph are ignored. Throws on a cycle, naming it.
+ */
+export const topologicalOrder = (deps: Map<string, string[]>): string[] => {
+  const order: string[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+
+  const visit = (id: string, path: string[]) => {
+    const seen = state.get(id);
+    if (seen === 'done') return;
+    if (seen === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(id)), id];
+      throw new Error(`Circular dependency: ${cycle.join(' -> ')}`);
+    }
+    state.set(id, 'visiting');
+    (deps.get(id) ?? []).forEach(dep => {
+      if (deps.has(dep)) visit(dep, [...path, id]);
+    });
+    state.set(id, 'done');
+    order.push(id);
+  };
+
+  deps.forEach((_, id) => visit(id, []));
+  return order;
+};
+
+/**
+ * All nodes that depend on any of the given ones, directly or transitively,
+ * including the given ones
+ */
+export const downstreamOf = (ids: string[], deps: Map<string, string[]>): Set<string> => {
+  const result = new Set(ids);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    deps.forEach((refs, id) => {
+      if (!result.has(id) && refs.some(ref => result.has(ref))) {
+        result.add(id);
+        grew = true;
+      }
+    });
+  }
+  return result;
+};
@@ -0,0 +1,122 @@
+import { ChannelState, RefinementChain } from '../types';
+import { PROCESSORS } from './processors';
+
+// Any user-editable part of a channel
+export type ChannelPatch = Partial<Omit<ChannelState, 'id' | 'processedValues'>>;
+
+export interface ChannelChange {
+  id: string;
+  before: ChannelPatch;
+  after: ChannelPatch;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  coalesceKey?: string; // Consecutive edits with the same key merge into one step
+  timestamp: number;
+  changes: ChannelChange[];
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const COALESCE_WINDOW_MS = 800;
+const MAX_ENTRIES = 200;
+
+let nextEntryId = 1;
+
+/**
+ * Adds an edit to the history, merging it into the previous step when it
+ * continues the same gesture (e.g. a slider drag).
+ */
+export const recordEdit = (
+  history: HistoryState,
+  label: string,
+  changes: ChannelChange[],
+  coalesceKey?: string,
+  now = Date.now()
+): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (
+    coalesceKey &&
+    last?.coalesceKey === coalesceKey &&
+    history.future.length === 0 &&
+    now - last.timestamp < COALESCE_WINDOW_MS
+  ) {
+    const merged = last.changes.map(prev => {
+      const next = changes.find(c => c.id === prev.id);
+      return next ? { ...prev, after: { ...prev.after, ...next.after } } : prev;
+    });
+    changes.forEach(c => {
+      if (!merged.some(m => m.id === c.id)) merged.push(c);
+    });
+    return { past: [...history.past.slice(0, -1), { ...last, changes: merged, timestamp: now }], future: [] };
+  }
+
+  const entry: HistoryEntry = { id: nextEntryId++, label, coalesceKey, timestamp: now, changes };
+  return { past: [...history.past, entry].slice(-MAX_ENTRIES), future: [] };
+};
+
+/**
+ * Applies one side of an entry's changes to the channel list
+ */
+export const applyChanges = (
+  states: ChannelState[],
+  changes: ChannelChange[],
+  side: 'before' | 'after'
+): ChannelState[] => states.map(ch => {
+  const change = changes.find(c => c.id === ch.id);
+  return change ? { ...ch, ...change[side] } : ch;
+});
+
+/**
+ * Picks the fields a patch touches from the current state, for the "before" side
+ */
+export const snapshotPatch = (state: ChannelState, patch: ChannelPatch): ChannelPatch => {
+  const before: Record<string, unknown> = {};
+  Object.keys(patch).forEach(key => {
+    before[key] = state[key as keyof ChannelState];
+  });
+  return before as ChannelPatch;
+};
+
+/**
+ * Human-readable label and coalescing key for a refinement chain edit
+ */
+export const describeChainChange = (
+  channelId: string,
+  before: RefinementChain,
+  after: RefinementChain
+): { label: string; coalesceKey?: string } => {
+  const name = (type: keyof typeof PROCESSORS) => PROCESSORS[type].label;
+
+  if (after.length > before.length) {
+    const added = after.find(p => !before.some(b => b.id === p.id));
+    return { label: `${channelId}: add ${added ? name(added.type) : 'processor'}` };
+  }
+  if (after.length < before.length) {
+    const removed = before.find(p => !after.some(a => a.id === p.id));
+    return { label: `${channelId}: remove ${removed ? name(removed.type) : 'processor'}` };
+  }
+  if (before.some((p, i) => p.id !== after[i].id)) {
+    return { label: `${channelId}: reorder chain` };
+  }
+
+  const idx = after.findIndex((p, i) => p !== before[i]);
+  if (idx === -1) return { label: `${channelId}: edit` };
+  const prev = before[idx];
+  const next = after[idx];
+  if (prev.bypass !== next.bypass) {
+    return { label: `${channelId}: ${next.bypass ? 'bypass' : 'enable'} ${name(next.type)}` };
+  }
+  const key = Object.keys(next.params).find(k => next.params[k] !== prev.params[k]) ?? '';
+  return {
+    label: `${channelId}: ${name(next.type)} ${key}`,
+    coalesceKey: `param:${channelId}:${next.id}:${key}`,
+  };
+};
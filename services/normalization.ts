@@ -0,0 +1,123 @@
+import { NormalizationSettings, NormalizationStrategy } from '../types';
+
+/**
+ * Turns raw level measurements (RMS, stereo difference, energy rise) into 0-1
+ * channel values. Analysis keeps the measurements on the raw channel, so a
+ * source can switch strategy without decoding again.
+ */
+
+export const NORMALIZATION_STRATEGIES: { value: NormalizationStrategy; label: string; hint: string }[] = [
+  { value: 'percentile', label: 'Percentile', hint: 'The chosen percentile reads as 1; rare spikes clip' },
+  { value: 'peak', label: 'Peak', hint: 'The loudest frame reads as 1' },
+  { value: 'loudness', label: 'Loudness (LUFS-style)', hint: 'Gated integrated level sits at a fixed height, so stems compare' },
+  { value: 'rolling', label: 'Rolling', hint: 'Each frame against the peak of the surrounding window' },
+  { value: 'fixed', label: 'Fixed (legacy)', hint: 'Constant gain per feature, as in older projects' },
+];
+
+// Where the integrated level lands for 'loudness', leaving ~9 dB above it
+const LOUDNESS_TARGET = 0.35;
+// Gating as in BS.1770: 400 ms blocks every 100 ms, -70 dB absolute, -10 dB relative
+const BLOCK_SECONDS = 0.4;
+const HOP_SECONDS = 0.1;
+const ABSOLUTE_GATE = 1e-7;
+const RELATIVE_GATE = 0.1;
+// Rolling references never drop below this share of the global peak, so
+// near-silence isn't blown up into noise
+const ROLLING_FLOOR = 0.1;
+
+const scaleBy = (measurements: Float32Array, reference: (frame: number) => number): Float32Array => {
+  const out = new Float32Array(measurements.length);
+  for (let i = 0; i < out.length; i++) {
+    const ref = reference(i);
+    out[i] = ref > 0 ? Math.max(0, Math.min(1, measurements[i] / ref)) : 0;
+  }
+  return out;
+};
+
+const peakOf = (values: Float32Array) => {
+  let peak = 0;
+  for (let i = 0; i < values.length; i++) if (values[i] > peak) peak = values[i];
+  return peak;
+};
+
+const percentileOf = (values: Float32Array, percentile: number) => {
+  if (!values.length) return 0;
+  const sorted = Float32Array.from(values).sort();
+  const p = Math.max(0, Math.min(100, percentile)) / 100;
+  // All-quiet upper range (sparse features): fall back to the peak
+  return sorted[Math.floor((sorted.length - 1) * p)] || sorted[sorted.length - 1];
+};
+
+/**
+ * Gated mean power of the measurements, returned as an amplitude
+ */
+export const integratedLevel = (measurements: Float32Array, fps: number): number => {
+  const block = Math.max(1, Math.round(BLOCK_SECONDS * fps));
+  const hop = Math.max(1, Math.round(HOP_SECONDS * fps));
+  const powers: number[] = [];
+  for (let start = 0; start + block <= Math.max(block, measurements.length); start += hop) {
+    let sum = 0;
+    const end = Math.min(measurements.length, start + block);
+    for (let i = start; i < end; i++) sum += measurements[i] * measurements[i];
+    const power = sum / Math.max(1, end - start);
+    if (power > ABSOLUTE_GATE) powers.push(power);
+  }
+  if (!powers.length) return 0;
+
+  const mean = powers.reduce((a, b) => a + b, 0) / powers.length;
+  const gated = powers.filter(p => p > mean * RELATIVE_GATE);
+  return Math.sqrt(gated.reduce((a, b) => a + b, 0) / gated.length);
+};
+
+/**
+ * Sliding-window maximum (monotonic deque), window centered on each frame
+ */
+const rollingPeak = (values: Float32Array, radius: number): Float32Array => {
+  const out = new Float32Array(values.length);
+  const deque: number[] = [];
+  let head = 0;
+  for (let i = 0; i < values.length + radius; i++) {
+    if (i < values.length) {
+      while (deque.length > head && values[deque[deque.length - 1]] <= values[i]) deque.pop();
+      deque.push(i);
+    }
+    const frame = i - radius;
+    if (frame < 0) continue;
+    while (deque[head] < frame - radius) head++;
+    out[frame] = values[deque[head]];
+  }
+  return out;
+};
+
+/**
+ * Maps measurements to 0-1 with the source's strategy. fixedGain is the
+ * feature's legacy scale, used by the 'fixed' strategy only.
+ */
+export const normalizeLevels = (
+  measurements: Float32Array,
+  settings: NormalizationSettings,
+  fps: number,
+  fixedGain = 1
+): Float32Array => {
+  switch (settings.strategy) {
+    case 'fixed':
+      return scaleBy(measurements, () => 1 / fixedGain);
+    case 'peak': {
+      const peak = peakOf(measurements);
+      return scaleBy(measurements, () => peak);
+    }
+    case 'percentile': {
+      const ref = percentileOf(measurements, settings.percentile);
+      return scaleBy(measurements, () => ref);
+    }
+    case 'loudness': {
+      const ref = integratedLevel(measurements, fps) / LOUDNESS_TARGET;
+      return scaleBy(measurements, () => ref);
+    }
+    case 'rolling': {
+      const floor = peakOf(measurements) * ROLLING_FLOOR;
+      const peaks = rollingPeak(measurements, Math.max(1, Math.round((settings.windowSeconds * fps) / 2)));
+      return scaleBy(measurements, i => Math.max(floor, peaks[i]));
+    }
+  }
+};
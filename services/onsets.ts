@@ -0,0 +1,120 @@
+import { fft, hannWindow } from './fft';
+
+const HOP = 512;
+const FFT_SIZE = 1024;
+const LOW_CUTOFF_HZ = 150;
+
+export interface FluxEnvelope {
+  full: Float32Array; // Positive log-magnitude flux, all bins
+  low: Float32Array; // Same, bins below LOW_CUTOFF_HZ
+  rate: number; // Envelope frames per second
+  latency: number; // Seconds between a frame's timestamp and its window center
+}
+
+/**
+ * Log-magnitude spectral flux at a fixed hop, split into full-band and low-band envelopes
+ */
+export const spectralFlux = (mono: Float32Array, sampleRate: number): FluxEnvelope => {
+  const frames = Math.max(0, Math.floor((mono.length - FFT_SIZE) / HOP) + 1);
+  const bins = FFT_SIZE / 2;
+  const lowBin = Math.max(1, Math.round(LOW_CUTOFF_HZ / (sampleRate / FFT_SIZE)));
+  const window = hannWindow(FFT_SIZE);
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  let prev = new Float32Array(bins);
+  let cur = new Float32Array(bins);
+  const full = new Float32Array(frames);
+  const low = new Float32Array(frames);
+
+  for (let f = 0; f < frames; f++) {
+    const start = f * HOP;
+    for (let i = 0; i < FFT_SIZE; i++) {
+      re[i] = mono[start + i] * window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    let flux = 0;
+    let lowFlux = 0;
+    for (let k = 0; k < bins; k++) {
+      cur[k] = Math.log1p(100 * Math.sqrt(re[k] * re[k] + im[k] * im[k]));
+      const d = cur[k] - prev[k];
+      if (d > 0) {
+        flux += d;
+        if (k < lowBin) lowFlux += d;
+      }
+    }
+    full[f] = f > 0 ? flux : 0;
+    low[f] = f > 0 ? lowFlux : 0;
+    [prev, cur] = [cur, prev];
+  }
+
+  return { full, low, rate: sampleRate / HOP, latency: FFT_SIZE / 2 / sampleRate };
+};
+
+export interface OnsetResult {
+  strength: Float32Array; // Per video frame, 0-1
+  times: number[]; // Onset timestamps in seconds
+}
+
+/**
+ * Peak-picks the flux envelope against a moving-average threshold and
+ * max-pools the normalized flux into one strength value per video frame.
+ */
+export const detectOnsets = (
+  flux: FluxEnvelope,
+  totalFrames: number,
+  fps: number,
+  sensitivity = 0.5
+): OnsetResult => {
+  const env = flux.full;
+  const n = env.length;
+
+  // Normalize by the 99th percentile so a single spike doesn't flatten the rest
+  const sorted = Float32Array.from(env).sort();
+  const ref = sorted[Math.floor((n - 1) * 0.99)] || 1;
+  const norm = new Float32Array(n);
+  for (let i = 0; i < n; i++) norm[i] = Math.min(1, env[i] / ref);
+
+  const rate = flux.rate;
+  const maxWin = Math.max(1, Math.round(0.03 * rate)); // Local max neighbourhood
+  const avgPre = Math.max(1, Math.round(0.1 * rate)); // Threshold window
+  const avgPost = Math.max(1, Math.round(0.07 * rate));
+  const minGap = Math.max(1, Math.round(0.03 * rate)); // Debounce between onsets
+  const delta = 0.15 * (1 - sensitivity) + 0.02;
+
+  const times: number[] = [];
+  let lastOnset = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const x = norm[i];
+    if (x <= 0) continue;
+
+    let isMax = true;
+    for (let k = Math.max(0, i - maxWin); k <= Math.min(n - 1, i + maxWin); k++) {
+      if (norm[k] > x) {
+        isMax = false;
+        break;
+      }
+    }
+    if (!isMax) continue;
+
+    let sum = 0;
+    const lo = Math.max(0, i - avgPre);
+    const hi = Math.min(n - 1, i + avgPost);
+    for (let k = lo; k <= hi; k++) sum += norm[k];
+    const threshold = sum / (hi - lo + 1) + delta;
+
+    if (x >= threshold && i - lastOnset >= minGap) {
+      times.push(Number((i / rate + flux.latency).toFixed(4)));
+      lastOnset = i;
+    }
+  }
+
+  const strength = new Float32Array(totalFrames);
+  for (let i = 0; i < n; i++) {
+    const f = Math.floor((i / rate + flux.latency) * fps);
+    if (f >= 0 && f < totalFrames && norm[i] > strength[f]) strength[f] = norm[i];
+  }
+
+  return { strength, times };
+};
@@ -0,0 +1,107 @@
+export interface PlaybackTrack {
+  id: string;
+  buffer: AudioBuffer;
+}
+
+/**
+ * Plays decoded buffers in sync through one AudioContext. The context clock is
+ * the transport clock, so it keeps running even when no track has audio.
+ */
+export const createAudioEngine = () => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let sources: AudioBufferSourceNode[] = [];
+  const gains = new Map<string, GainNode>();
+  let levels: Record<string, number> = {};
+  let startedAt = 0; // Context time that corresponds to position 0
+  let pausedAt = 0;
+  let playing = false;
+
+  const ensureContext = () => {
+    if (!ctx) {
+      ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      master = ctx.createGain();
+      master.connect(ctx.destination);
+    }
+    return ctx;
+  };
+
+  const stopSources = () => {
+    sources.forEach(src => {
+      src.onended = null;
+      try {
+        src.stop();
+      } catch {
+        // Already stopped
+      }
+      src.disconnect();
+    });
+    sources = [];
+  };
+
+  const gainFor = (id: string) => {
+    const audio = ensureContext();
+    let gain = gains.get(id);
+    if (!gain) {
+      gain = audio.createGain();
+      gain.connect(master!);
+      gains.set(id, gain);
+    }
+    gain.gain.value = levels[id] ?? 1;
+    return gain;
+  };
+
+  const play = (tracks: PlaybackTrack[], from: number) => {
+    const audio = ensureContext();
+    if (audio.state === 'suspended') audio.resume();
+    stopSources();
+
+    const when = audio.currentTime + 0.02;
+    tracks.forEach(track => {
+      if (from >= track.buffer.duration) return;
+      const src = audio.createBufferSource();
+      src.buffer = track.buffer;
+      src.connect(gainFor(track.id));
+      src.start(when, Math.max(0, from));
+      sources.push(src);
+    });
+
+    startedAt = when - from;
+    playing = true;
+  };
+
+  const pause = () => {
+    if (!playing) return pausedAt;
+    pausedAt = getTime();
+    stopSources();
+    playing = false;
+    return pausedAt;
+  };
+
+  const getTime = () => {
+    if (!playing || !ctx) return pausedAt;
+    return Math.max(0, ctx.currentTime - startedAt);
+  };
+
+  // 0-1 level per track id; applied with a short ramp to avoid clicks
+  const setLevels = (next: Record<string, number>) => {
+    levels = next;
+    if (!ctx) return;
+    gains.forEach((gain, id) => {
+      gain.gain.setTargetAtTime(levels[id] ?? 1, ctx!.currentTime, 0.01);
+    });
+  };
+
+  const dispose = () => {
+    stopSources();
+    ctx?.close();
+    ctx = null;
+    master = null;
+    gains.clear();
+    playing = false;
+  };
+
+  return { play, pause, getTime, setLevels, dispose, isPlaying: () => playing };
+};
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
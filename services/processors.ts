@@ -0,0 +1,387 @@
+import { Processor, ProcessorParams, ProcessorType, RefinementChain, RefinementSettings } from '../types';
+import { DEFAULT_REFINEMENT } from '../constants';
+import { createCurve, CurveInterpolation, DEFAULT_CURVE_POINTS } from './curve';
+
+export interface ProcessContext {
+  bpm: number;
+  fps: number;
+  beatOffset: number; // Seconds to the first downbeat, anchors the beat grid
+  inputs: Record<string, Float32Array>; // Processed values of channels named by 'channel' params
+}
+
+export type ParamSpec =
+  | { key: string; label: string; kind: 'number'; min: number; max: number; step: number }
+  | { key: string; label: string; kind: 'boolean' }
+  | { key: string; label: string; kind: 'select'; options: { value: string; label: string }[] }
+  | { key: string; label: string; kind: 'channel' } // Another channel's id, '' for none
+  | { key: string; label: string; kind: 'curve' }; // Flat [x0, y0, x1, y1, ...] transfer curve points
+
+export interface ProcessorDefinition {
+  label: string;
+  params: ParamSpec[];
+  defaults: ProcessorParams;
+  process: (input: Float32Array, params: ProcessorParams, ctx: ProcessContext) => Float32Array;
+}
+
+// Per-frame coefficient for a one-pole filter with the given time constant
+const timeCoeff = (seconds: number, fps: number) => seconds <= 0 ? 0 : Math.exp(-1 / (seconds * fps));
+
+// Note values in quarter-note beats
+const NOTE_DIVISIONS: Record<string, number> = {
+  '1/32': 0.125,
+  '1/16': 0.25,
+  '1/8': 0.5,
+  '1/4': 1,
+  '1/2': 2,
+  '1/1': 4,
+};
+
+const divisionOptions = Object.keys(NOTE_DIVISIONS).map(value => ({ value, label: value }));
+const syncOptions = [{ value: 'free', label: 'Free (seconds)' }, ...divisionOptions];
+
+// Seconds for a synced note value, or null when the param is free-running
+const syncedSeconds = (sync: ProcessorParams[string], ctx: ProcessContext) =>
+  typeof sync === 'string' && sync in NOTE_DIVISIONS ? NOTE_DIVISIONS[sync] * (60 / ctx.bpm) : null;
+
+// Position on the beat grid in units of the given division
+const gridPosition = (frame: number, division: number, ctx: ProcessContext) =>
+  (frame / ctx.fps - ctx.beatOffset) / (division * (60 / ctx.bpm));
+
+const sampleAt = (input: Float32Array, pos: number) => {
+  const i = Math.max(0, Math.min(input.length - 1, Math.floor(pos)));
+  const j = Math.min(input.length - 1, i + 1);
+  const t = Math.max(0, Math.min(1, pos - i));
+  return input[i] * (1 - t) + input[j] * t;
+};
+
+const map = (input: Float32Array, fn: (v: number) => number) => {
+  const out = new Float32Array(input.length);
+  for (let i = 0; i < input.length; i++) out[i] = fn(input[i]);
+  return out;
+};
+
+export const PROCESSORS: Record<ProcessorType, ProcessorDefinition> = {
+  gate: {
+    label: 'Gate',
+    params: [{ key: 'threshold', label: 'Gate Threshold', kind: 'number', min: 0, max: 1, step: 0.01 }],
+    defaults: { threshold: 0 },
+    process: (input, p) => map(input, v => v < (p.threshold as number) ? 0 : v),
+  },
+
+  gainOffset: {
+    label: 'Gain / Offset',
+    params: [
+      { key: 'gain', label: 'Gain', kind: 'number', min: 0, max: 5, step: 0.1 },
+      { key: 'offset', label: 'Offset', kind: 'number', min: -1, max: 1, step: 0.05 },
+    ],
+    defaults: { gain: 1, offset: 0 },
+    process: (input, p) => map(input, v => (v + (p.offset as number)) * (p.gain as number)),
+  },
+
+  smooth: {
+    label: 'Smooth',
+    params: [{ key: 'amount', label: 'Smooth (Attack/Release)', kind: 'number', min: 0, max: 1, step: 0.01 }],
+    defaults: { amount: 0 },
+    process: (input, p) => {
+      // Map smooth 0-1 to an alpha value.
+      const alpha = 1 - Math.pow(p.amount as number, 0.5) * 0.95;
+      let smoothed = 0;
+      return map(input, v => (smoothed = smoothed * (1 - alpha) + v * alpha));
+    },
+  },
+
+  clip: {
+    label: 'Clip',
+    params: [{ key: 'clampTop', label: 'Soft Clip (0-1)', kind: 'boolean' }],
+    defaults: { clampTop: true },
+    // Always clamp bottom at 0
+    process: (input, p) => map(input, v => p.clampTop ? Math.max(0, Math.min(1, v)) : Math.max(0, v)),
+  },
+
+  invert: {
+    label: 'Invert',
+    params: [],
+    defaults: {},
+    process: (input) => map(input, v => 1 - v),
+  },
+
+  compressor: {
+    label: 'Compressor / Expander',
+    params: [
+      { key: 'mode', label: 'Mode', kind: 'select', options: [
+        { value: 'compress', label: 'Compress (above)' },
+        { value: 'expand', label: 'Expand (below)' },
+      ] },
+      { key: 'threshold', label: 'Threshold', kind: 'number', min: 0, max: 1, step: 0.01 },
+      { key: 'ratio', label: 'Ratio', kind: 'number', min: 1, max: 20, step: 0.1 },
+      { key: 'makeup', label: 'Makeup Gain', kind: 'number', min: 0, max: 4, step: 0.05 },
+    ],
+    defaults: { mode: 'compress', threshold: 0.5, ratio: 4, makeup: 1 },
+    process: (input, p) => {
+      const threshold = p.threshold as number;
+      const ratio = Math.max(1, p.ratio as number);
+      const makeup = p.makeup as number;
+      return map(input, v => {
+        let out = v;
+        if (p.mode === 'expand') {
+          if (v < threshold) out = Math.max(0, threshold - (threshold - v) * ratio);
+        } else if (v > threshold) {
+          out = threshold + (v - threshold) / ratio;
+        }
+        return out * makeup;
+      });
+    },
+  },
+
+  hysteresisGate: {
+    label: 'Hysteresis Gate',
+    params: [
+      { key: 'open', label: 'Open Above', kind: 'number', min: 0, max: 1, step: 0.01 },
+      { key: 'close', label: 'Close Below', kind: 'number', min: 0, max: 1, step: 0.01 },
+      { key: 'hold', label: 'Hold (s)', kind: 'number', min: 0, max: 2, step: 0.01 },
+    ],
+    defaults: { open: 0.5, close: 0.3, hold: 0.1 },
+    process: (input, p, ctx) => {
+      const holdFrames = Math.round((p.hold as number) * ctx.fps);
+      let isOpen = false;
+      let below = 0;
+      return map(input, v => {
+        if (!isOpen && v >= (p.open as number)) {
+          isOpen = true;
+          below = 0;
+        } else if (isOpen && v < (p.close as number)) {
+          below++;
+          if (below > holdFrames) isOpen = false;
+        } else {
+          below = 0;
+        }
+        return isOpen ? v : 0;
+      });
+    },
+  },
+
+  envelope: {
+    label: 'Envelope Follower',
+    params: [
+      { key: 'attack', label: 'Attack (s)', kind: 'number', min: 0, max: 2, step: 0.01 },
+      { key: 'release', label: 'Release (s)', kind: 'number', min: 0, max: 5, step: 0.01 },
+      { key: 'sync', label: 'Release Sync', kind: 'select', options: syncOptions },
+    ],
+    defaults: { attack: 0.01, release: 0.3, sync: 'free' },
+    process: (input, p, ctx) => {
+      const a = timeCoeff(p.attack as number, ctx.fps);
+      const r = timeCoeff(syncedSeconds(p.sync, ctx) ?? (p.release as number), ctx.fps);
+      let env = 0;
+      return map(input, v => {
+        const c = v > env ? a : r;
+        env = c * env + (1 - c) * v;
+        return env;
+      });
+    },
+  },
+
+  quantize: {
+    label: 'Quantize',
+    params: [{ key: 'steps', label: 'Steps', kind: 'number', min: 2, max: 32, step: 1 }],
+    defaults: { steps: 4 },
+    process: (input, p) => {
+      const levels = Math.max(1, Math.round(p.steps as number) - 1);
+      return map(input, v => Math.round(v * levels) / levels);
+    },
+  },
+
+  peakHold: {
+    label: 'Peak Hold',
+    params: [
+      { key: 'hold', label: 'Hold (s)', kind: 'number', min: 0, max: 2, step: 0.01 },
+      { key: 'decay', label: 'Decay (per s)', kind: 'number', min: 0, max: 10, step: 0.05 },
+      { key: 'sync', label: 'Decay Sync (full fall)', kind: 'select', options: syncOptions },
+    ],
+    defaults: { hold: 0.1, decay: 1, sync: 'free' },
+    process: (input, p, ctx) => {
+      const holdFrames = Math.round((p.hold as number) * ctx.fps);
+      const synced = syncedSeconds(p.sync, ctx);
+      const decayPerFrame = (synced !== null ? 1 / Math.max(synced, 1e-3) : (p.decay as number)) / ctx.fps;
+      let peak = 0;
+      let held = 0;
+      return map(input, v => {
+        if (v >= peak) {
+          peak = v;
+          held = 0;
+        } else if (held < holdFrames) {
+          held++;
+        } else {
+          peak = Math.max(v, peak - decayPerFrame);
+        }
+        return peak;
+      });
+    },
+  },
+
+  sampleHold: {
+    label: 'Sample & Hold (Grid)',
+    params: [{ key: 'division', label: 'Grid', kind: 'select', options: divisionOptions }],
+    defaults: { division: '1/8' },
+    process: (input, p, ctx) => {
+      const division = NOTE_DIVISIONS[p.division as string] ?? 1;
+      const out = new Float32Array(input.length);
+      let cell = NaN;
+      let held = 0;
+      for (let i = 0; i < input.length; i++) {
+        const c = Math.floor(gridPosition(i, division, ctx));
+        if (c !== cell) {
+          cell = c;
+          held = input[i];
+        }
+        out[i] = held;
+      }
+      return out;
+    },
+  },
+
+  swing: {
+    label: 'Swing',
+    params: [
+      { key: 'division', label: 'Grid', kind: 'select', options: divisionOptions },
+      { key: 'amount', label: 'Swing Amount', kind: 'number', min: 0, max: 1, step: 0.01 },
+    ],
+    defaults: { division: '1/16', amount: 0.3 },
+    process: (input, p, ctx) => {
+      const division = NOTE_DIVISIONS[p.division as string] ?? 0.25;
+      const stepFrames = division * (60 / ctx.bpm) * ctx.fps;
+      // Off-beat subdivisions start later by up to half a subdivision
+      const s = 0.5 * (p.amount as number);
+      const out = new Float32Array(input.length);
+      for (let i = 0; i < input.length; i++) {
+        const pos = gridPosition(i, division, ctx);
+        const pair = Math.floor(pos / 2) * 2;
+        const phase = pos - pair;
+        const src = phase < 1 + s ? phase / (1 + s) : 1 + (phase - 1 - s) / (1 - s);
+        out[i] = sampleAt(input, i + (src - phase) * stepFrames);
+      }
+      return out;
+    },
+  },
+
+  retrigger: {
+    label: 'Retrigger on Beat',
+    params: [
+      { key: 'division', label: 'Trigger Every', kind: 'select', options: divisionOptions },
+      { key: 'decay', label: 'Decay (of step)', kind: 'number', min: 0.05, max: 1, step: 0.01 },
+      { key: 'curve', label: 'Curve', kind: 'number', min: 0.2, max: 5, step: 0.1 },
+      { key: 'mode', label: 'Mode', kind: 'select', options: [
+        { value: 'multiply', label: 'Multiply Signal' },
+        { value: 'sampled', label: 'Hold Level at Trigger' },
+        { value: 'envelope', label: 'Envelope Only' },
+      ] },
+    ],
+    defaults: { division: '1/4', decay: 0.8, curve: 2, mode: 'multiply' },
+    process: (input, p, ctx) => {
+      const division = NOTE_DIVISIONS[p.division as string] ?? 1;
+      const decay = Math.max(0.01, p.decay as number);
+      const out = new Float32Array(input.length);
+      let cell = NaN;
+      let level = 0;
+      for (let i = 0; i < input.length; i++) {
+        const pos = gridPosition(i, division, ctx);
+        const c = Math.floor(pos);
+        if (c !== cell) {
+          cell = c;
+          level = input[i];
+        }
+        const t = Math.min(1, (pos - c) / decay);
+        const env = Math.pow(1 - t, p.curve as number);
+        out[i] = p.mode === 'envelope' ? env : env * (p.mode === 'sampled' ? level : input[i]);
+      }
+      return out;
+    },
+  },
+
+  sidechain: {
+    label: 'Sidechain Duck',
+    params: [
+      { key: 'source', label: 'Key Channel', kind: 'channel' },
+      { key: 'amount', label: 'Amount', kind: 'number', min: 0, max: 1, step: 0.01 },
+      { key: 'attack', label: 'Attack (s)', kind: 'number', min: 0, max: 1, step: 0.005 },
+      { key: 'release', label: 'Release (s)', kind: 'number', min: 0, max: 2, step: 0.01 },
+    ],
+    defaults: { source: '', amount: 0.8, attack: 0.01, release: 0.25 },
+    process: (input, p, ctx) => {
+      const key = ctx.inputs[p.source as string];
+      if (!key) return input;
+      // Envelope follower on the key, then gain = 1 - amount * envelope
+      const attack = timeCoeff(p.attack as number, ctx.fps);
+      const release = timeCoeff(p.release as number, ctx.fps);
+      const amount = p.amount as number;
+      const out = new Float32Array(input.length);
+      let env = 0;
+      for (let i = 0; i < input.length; i++) {
+        const k = Math.max(0, Math.min(1, key[i] ?? 0));
+        const coeff = k > env ? attack : release;
+        env = k + (env - k) * coeff;
+        out[i] = input[i] * (1 - amount * env);
+      }
+      return out;
+    },
+  },
+
+  curve: {
+    label: 'Transfer Curve',
+    params: [
+      { key: 'points', label: 'Response', kind: 'curve' },
+      { key: 'interpolation', label: 'Interpolation', kind: 'select', options: [
+        { value: 'smooth', label: 'Smooth' },
+        { value: 'linear', label: 'Linear' },
+        { value: 'step', label: 'Step' },
+      ] },
+    ],
+    defaults: { points: DEFAULT_CURVE_POINTS, interpolation: 'smooth' },
+    process: (input, p) => {
+      const curve = createCurve(p.points as number[], p.interpolation as CurveInterpolation);
+      return map(input, v => Math.max(0, Math.min(1, curve(Math.max(0, Math.min(1, v))))));
+    },
+  },
+};
+
+export const PROCESSOR_TYPES = Object.keys(PROCESSORS) as ProcessorType[];
+
+export const createProcessor = (type: ProcessorType, params: ProcessorParams = {}, bypass = false): Processor => ({
+  id: Math.random().toString(36).substr(2, 9),
+  type,
+  bypass,
+  params: { ...PROCESSORS[type].defaults, ...params },
+});
+
+/**
+ * Ids of the channels an active chain reads through 'channel' params
+ */
+export const chainInputs = (chain: RefinementChain): string[] => {
+  const ids = new Set<string>();
+  chain.forEach(processor => {
+    if (processor.bypass) return;
+    PROCESSORS[processor.type].params.forEach(spec => {
+      const value = processor.params[spec.key];
+      if (spec.kind === 'channel' && typeof value === 'string' && value) ids.add(value);
+    });
+  });
+  return Array.from(ids);
+};
+
+/**
+ * Maps the flat pre-chain settings onto the equivalent processor chain
+ */
+export const migrateSettings = (settings: RefinementSettings): RefinementChain => [
+  createProcessor('gate', { threshold: settings.gate }),
+  createProcessor('gainOffset', { gain: settings.gain, offset: settings.offset }),
+  createProcessor('smooth', { amount: settings.smooth }),
+  createProcessor('clip', { clampTop: settings.clip }),
+  createProcessor('invert', {}, !settings.invert),
+];
+
+export const createDefaultChain = (): RefinementChain => migrateSettings(DEFAULT_REFINEMENT);
+
+/**
+ * Accepts either a chain or legacy flat settings
+ */
+export const toChain = (settings: RefinementChain | RefinementSettings): RefinementChain =>
+  Array.isArray(settings) ? settings : migrateSettings(settings);
@@ -0,0 +1,193 @@
+import { AnalysisConfig, AudioFileMeta, ChannelState, ProjectData, RawChannelData, RefinementChain, RefinementSettings } from '../types';
+import { DEFAULT_CONFIG, DEFAULT_NORMALIZATION, DEFAULT_OUTPUT_RANGE } from '../constants';
+import { toChain } from './processors';
+
+/**
+ * Project file layout (little-endian):
+ *   "MSIG" | u32 version | u32 header byte length | UTF-8 JSON header | pad to 4 |
+ *   Float32 values of every raw channel, back to back in header order, each
+ *   followed by its measurements when it has any (measurementLength > 0)
+ */
+export const PROJECT_VERSION = 6;
+export const PROJECT_EXTENSION = '.msig';
+
+const MAGIC = 'MSIG';
+
+// Raw channel as stored in the header; its samples follow in the data section
+type StoredRawChannel = Omit<RawChannelData, 'values' | 'measurements'> & { length: number; measurementLength: number };
+
+// Channel state as stored: processed values are recomputed on load, and
+// settings may still be the flat pre-chain form
+type StoredChannelState = Omit<ChannelState, 'processedValues' | 'settings'> & { settings: RefinementChain | RefinementSettings };
+
+/**
+ * JSON header of a PROJECT_VERSION file
+ */
+export interface ProjectHeader {
+  version: number;
+  savedAt: string;
+  config: Partial<AnalysisConfig>; // Merged over DEFAULT_CONFIG on load, so settings added later get a default
+  files: AudioFileMeta[];
+  selectedChannelId: string | null;
+  rawChannels: StoredRawChannel[];
+  channelStates: StoredChannelState[];
+}
+
+// Older headers lack the fields later versions added; the migrations fill them in
+type LegacyFile = Omit<AudioFileMeta, 'normalization' | 'tonal' | 'separation'> &
+  Partial<Pick<AudioFileMeta, 'normalization' | 'tonal' | 'separation'>>;
+type LegacyChannelState = Omit<StoredChannelState, 'label' | 'outputMin' | 'outputMax' | 'automation'> &
+  Partial<Pick<StoredChannelState, 'label' | 'outputMin' | 'outputMax' | 'automation'>>;
+type LegacyRawChannel = Omit<StoredRawChannel, 'measurementLength'> & { measurementLength?: number };
+
+interface LegacyProjectHeader extends Omit<ProjectHeader, 'version' | 'savedAt' | 'files' | 'rawChannels' | 'channelStates'> {
+  version?: number; // Missing in some early files; the binary version field says which
+  savedAt?: string;
+  files: LegacyFile[];
+  rawChannels: LegacyRawChannel[];
+  channelStates: LegacyChannelState[];
+}
+
+type VersionedHeader = LegacyProjectHeader & { version: number };
+
+// Upgrades a header from version N to N + 1. Bump PROJECT_VERSION and add an
+// entry here whenever the header shape changes.
+const MIGRATIONS: Record<number, (header: VersionedHeader) => VersionedHeader> = {
+  // v2: channels gained an export label and output range
+  1: (header) => ({
+    ...header,
+    version: 2,
+    channelStates: header.channelStates.map(state => ({ label: state.id, ...DEFAULT_OUTPUT_RANGE, ...state })),
+  }),
+  // v3: automation overrides
+  2: (header) => ({
+    ...header,
+    version: 3,
+    channelStates: header.channelStates.map(state => ({ automation: [], ...state })),
+  }),
+  // v4: per-source normalization. Older analyses used the fixed gains and kept
+  // no measurements, so they stay as they are until re-analyzed
+  3: (header) => ({
+    ...header,
+    version: 4,
+    files: header.files.map(file => ({ normalization: { ...DEFAULT_NORMALIZATION, strategy: 'fixed' as const }, ...file })),
+    rawChannels: header.rawChannels.map(raw => ({ measurementLength: 0, ...raw })),
+  }),
+  // v5: opt-in tonal analysis per source
+  4: (header) => ({
+    ...header,
+    version: 5,
+    files: header.files.map(file => ({ tonal: false, ...file })),
+  }),
+  // v6: opt-in harmonic/percussive separation per source
+  5: (header) => ({
+    ...header,
+    version: 6,
+    files: header.files.map(file => ({ separation: 'off' as const, ...file })),
+  }),
+};
+
+/**
+ * Brings a decoded header up to PROJECT_VERSION. fileVersion is the binary
+ * version field, used when the JSON header doesn't carry one.
+ */
+export const migrateProject = (header: LegacyProjectHeader, fileVersion: number): ProjectHeader => {
+  let current: VersionedHeader = { ...header, version: header.version ?? fileVersion };
+  if (!Number.isInteger(current.version) || current.version < 1) {
+    throw new Error(`Invalid project version ${current.version}`);
+  }
+  if (current.version > PROJECT_VERSION) {
+    throw new Error(`Project version ${current.version} is newer than this app supports (${PROJECT_VERSION})`);
+  }
+  while (current.version < PROJECT_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new Error(`No migration from project version ${current.version}`);
+    current = step(current);
+  }
+  // Every step from the file's version up has run, so the header is current
+  return { ...current, savedAt: current.savedAt ?? new Date(0).toISOString() } as ProjectHeader;
+};
+
+export const encodeProject = (project: Omit<ProjectData, 'version' | 'savedAt'>): ArrayBuffer => {
+  const header: ProjectHeader = {
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    config: project.config,
+    files: project.files,
+    selectedChannelId: project.selectedChannelId,
+    rawChannels: project.rawChannels.map(({ values, measurements, ...rest }) => ({
+      ...rest,
+      length: values.length,
+      measurementLength: measurements?.length ?? 0,
+    })),
+    // Processed values are cheap to recompute, so only settings are stored
+    channelStates: project.channelStates.map(({ processedValues, ...rest }) => rest),
+  };
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const dataOffset = Math.ceil((12 + headerBytes.length) / 4) * 4;
+  const totalValues = project.rawChannels.reduce((acc, ch) => acc + ch.values.length + (ch.measurements?.length ?? 0), 0);
+  const buffer = new ArrayBuffer(dataOffset + totalValues * 4);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < 4; i++) view.setUint8(i, MAGIC.charCodeAt(i));
+  view.setUint32(4, PROJECT_VERSION, true);
+  view.setUint32(8, headerBytes.length, true);
+  new Uint8Array(buffer, 12, headerBytes.length).set(headerBytes);
+
+  let offset = dataOffset;
+  const write = (values: Float32Array) => {
+    for (let i = 0; i < values.length; i++, offset += 4) view.setFloat32(offset, values[i], true);
+  };
+  project.rawChannels.forEach(ch => {
+    write(ch.values);
+    if (ch.measurements) write(ch.measurements);
+  });
+
+  return buffer;
+};
+
+/**
+ * Parses a project file. processedValues start as copies of the raw values;
+ * callers re-run refinement to fill them in.
+ */
+export const decodeProject = (buffer: ArrayBuffer): ProjectData => {
+  const view = new DataView(buffer);
+  const magic = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  if (magic !== MAGIC) throw new Error('Not a MotionSignal project file');
+
+  const fileVersion = view.getUint32(4, true);
+  const headerLength = view.getUint32(8, true);
+  const headerJson = new TextDecoder().decode(new Uint8Array(buffer, 12, headerLength));
+  const header = migrateProject(JSON.parse(headerJson) as LegacyProjectHeader, fileVersion);
+
+  let offset = Math.ceil((12 + headerLength) / 4) * 4;
+  const read = (length: number) => {
+    const values = new Float32Array(length);
+    for (let i = 0; i < length; i++, offset += 4) values[i] = view.getFloat32(offset, true);
+    return values;
+  };
+  const rawChannels = header.rawChannels.map(({ length, measurementLength, ...rest }): RawChannelData => {
+    const values = read(length);
+    return measurementLength ? { ...rest, values, measurements: read(measurementLength) } : { ...rest, values };
+  });
+
+  const channelStates = header.channelStates.map((state): ChannelState => {
+    const raw = rawChannels.find(r => r.id === state.id);
+    return {
+      ...state,
+      settings: toChain(state.settings),
+      processedValues: raw ? new Float32Array(raw.values) : new Float32Array(0),
+    };
+  });
+
+  return {
+    version: header.version,
+    savedAt: header.savedAt,
+    config: { ...DEFAULT_CONFIG, ...header.config },
+    files: header.files,
+    rawChannels,
+    channelStates,
+    selectedChannelId: header.selectedChannelId,
+  };
+};
@@ -0,0 +1,166 @@
+import { SeparationMode } from '../types';
+import { fft, hannWindow } from './fft';
+
+/**
+ * Harmonic/percussive source separation by median filtering (Fitzgerald 2010,
+ * with Driedger's margin for a residual). On a spectrogram, sustained tones
+ * are horizontal lines and hits are vertical ones: a median across time keeps
+ * the first, a median across frequency the second.
+ */
+
+export type SeparatedPart = 'harmonic' | 'percussive' | 'residual';
+
+export const SEPARATION_MODES: { value: SeparationMode; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'harmonicPercussive', label: 'Harmonic + percussive' },
+  { value: 'withResidual', label: '+ residual' },
+];
+
+const FFT_SIZE = 2048;
+const HOP = FFT_SIZE / 2; // Hann at 50% overlap sums to 1, so no synthesis window is needed
+const TIME_KERNEL = 9; // Frames, ~0.2 s at 44.1 kHz
+const FREQ_KERNEL = 17; // Bins
+// A bin counts as harmonic/percussive only when that estimate beats the other
+// by this factor; the rest is residual (noise, reverb tails)
+const RESIDUAL_MARGIN = 2;
+
+export const separatedParts = (mode: SeparationMode): SeparatedPart[] =>
+  mode === 'off' ? [] : mode === 'withResidual' ? ['harmonic', 'percussive', 'residual'] : ['harmonic', 'percussive'];
+
+/**
+ * Source id of a separated part: the parent's id plus the part, so channels
+ * still trace back to their file
+ */
+export const separatedSourceId = (sourceId: string, part: SeparatedPart) => `${sourceId}:${part}`;
+
+export const splitSourceId = (sourceId: string): { base: string; part?: SeparatedPart } => {
+  const [base, part] = sourceId.split(':');
+  return { base, part: part as SeparatedPart | undefined };
+};
+
+// Median of `count` values via insertion sort into scratch
+const median = (scratch: Float32Array, count: number) => {
+  for (let i = 1; i < count; i++) {
+    const v = scratch[i];
+    let j = i - 1;
+    while (j >= 0 && scratch[j] > v) {
+      scratch[j + 1] = scratch[j];
+      j--;
+    }
+    scratch[j + 1] = v;
+  }
+  return scratch[count >> 1];
+};
+
+/**
+ * Splits a mono signal into parts of the same length. Streams through the
+ * STFT keeping only TIME_KERNEL frames in memory.
+ */
+export const separateHarmonicPercussive = (
+  mono: Float32Array,
+  mode: SeparationMode,
+  onProgress?: (fraction: number) => void
+): Partial<Record<SeparatedPart, Float32Array>> => {
+  const parts = separatedParts(mode);
+  if (!parts.length) return {};
+  const margin = mode === 'withResidual' ? RESIDUAL_MARGIN : 1;
+
+  const bins = FFT_SIZE / 2 + 1;
+  const window = hannWindow(FFT_SIZE);
+  const frameCount = Math.ceil(mono.length / HOP) + 1;
+  const half = TIME_KERNEL >> 1;
+
+  // Ring buffer of recent frames: complex spectra and magnitudes
+  const ringRe = Array.from({ length: TIME_KERNEL }, () => new Float32Array(FFT_SIZE));
+  const ringIm = Array.from({ length: TIME_KERNEL }, () => new Float32Array(FFT_SIZE));
+  const ringMag = Array.from({ length: TIME_KERNEL }, () => new Float32Array(bins));
+
+  const outputs = Object.fromEntries(parts.map(p => [p, new Float32Array(mono.length)])) as Record<SeparatedPart, Float32Array>;
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const harmonic = new Float32Array(bins);
+  const percussive = new Float32Array(bins);
+  const scratch = new Float32Array(Math.max(TIME_KERNEL, FREQ_KERNEL));
+  const masks = Object.fromEntries(parts.map(p => [p, new Float32Array(bins)])) as Record<SeparatedPart, Float32Array>;
+
+  // Frame f's window starts at (f - 1) * HOP so the first half-window is covered
+  const analyze = (f: number) => {
+    const slot = f % TIME_KERNEL;
+    const r = ringRe[slot];
+    const i = ringIm[slot];
+    const start = (f - 1) * HOP;
+    for (let n = 0; n < FFT_SIZE; n++) {
+      const idx = start + n;
+      r[n] = idx >= 0 && idx < mono.length ? mono[idx] * window[n] : 0;
+      i[n] = 0;
+    }
+    fft(r, i);
+    const mag = ringMag[slot];
+    for (let k = 0; k < bins; k++) mag[k] = Math.sqrt(r[k] * r[k] + i[k] * i[k]);
+  };
+
+  const synthesize = (f: number, available: number) => {
+    const slot = f % TIME_KERNEL;
+    const mag = ringMag[slot];
+
+    // Harmonic: median across time; percussive: median across frequency
+    for (let k = 0; k < bins; k++) {
+      let count = 0;
+      for (let d = -half; d <= half; d++) {
+        const g = f + d;
+        if (g >= 0 && g < available) scratch[count++] = ringMag[g % TIME_KERNEL][k];
+      }
+      harmonic[k] = median(scratch, count);
+    }
+    for (let k = 0; k < bins; k++) {
+      let count = 0;
+      for (let d = -(FREQ_KERNEL >> 1); d <= FREQ_KERNEL >> 1; d++) {
+        const b = k + d;
+        if (b >= 0 && b < bins) scratch[count++] = mag[b];
+      }
+      percussive[k] = median(scratch, count);
+    }
+
+    for (let k = 0; k < bins; k++) {
+      const h = harmonic[k] > margin * percussive[k] ? 1 : 0;
+      const p = percussive[k] >= margin * harmonic[k] && !h ? 1 : 0;
+      if (masks.harmonic) masks.harmonic[k] = h;
+      if (masks.percussive) masks.percussive[k] = p;
+      if (masks.residual) masks.residual[k] = 1 - h - p;
+    }
+
+    const start = (f - 1) * HOP;
+    parts.forEach(part => {
+      const mask = masks[part];
+      const srcRe = ringRe[slot];
+      const srcIm = ringIm[slot];
+      // Masked spectrum, mirrored so the inverse is real
+      for (let k = 0; k < bins; k++) {
+        re[k] = srcRe[k] * mask[k];
+        im[k] = srcIm[k] * mask[k];
+      }
+      for (let k = bins; k < FFT_SIZE; k++) {
+        re[k] = re[FFT_SIZE - k];
+        im[k] = -im[FFT_SIZE - k];
+      }
+      // Inverse FFT via conjugation
+      for (let k = 0; k < FFT_SIZE; k++) im[k] = -im[k];
+      fft(re, im);
+      const out = outputs[part];
+      for (let n = 0; n < FFT_SIZE; n++) {
+        const idx = start + n;
+        if (idx >= 0 && idx < out.length) out[idx] += re[n] / FFT_SIZE;
+      }
+    });
+  };
+
+  for (let f = 0; f < frameCount + half; f++) {
+    if (onProgress && f % 500 === 0) onProgress(f / (frameCount + half));
+    if (f < frameCount) analyze(f);
+    const ready = f - half;
+    if (ready >= 0) synthesize(ready, Math.min(frameCount, f + 1));
+  }
+
+  onProgress?.(1);
+  return outputs;
+};
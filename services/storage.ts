@@ -0,0 +1,38 @@
+const DB_NAME = 'motionsignal';
+const STORE = 'sessions';
+const LAST_SESSION_KEY = 'last';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, 1);
+  req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(req.result as T);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+};
+
+/**
+ * Persists an encoded project as the last session
+ */
+export const saveLastSession = (encoded: ArrayBuffer) =>
+  withStore<IDBValidKey>('readwrite', store => store.put(encoded, LAST_SESSION_KEY));
+
+export const loadLastSession = async (): Promise<ArrayBuffer | null> =>
+  (await withStore<ArrayBuffer | undefined>('readonly', store => store.get(LAST_SESSION_KEY))) ?? null;
+
+export const clearLastSession = () =>
+  withStore<undefined>('readwrite', store => store.delete(LAST_SESSION_KEY));
@@ -0,0 +1,81 @@
+/**
+ * Browser side of live streaming. Sends the value of every streamed channel
+ * to the OSC bridge (bridge/osc-bridge.mjs) as small JSON frames:
+ *   { "type": "frame", "time": 12.5, "channels": { "<channel id>": 0.42, ... } }
+ * The bridge turns each entry into an OSC message at /motionsignal/<channel id>.
+ */
+
+export type StreamStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+
+export const DEFAULT_STREAM_URL = 'ws://localhost:8765';
+export const DEFAULT_STREAM_RATE = 30; // Frames per second sent to the bridge
+
+const RECONNECT_DELAY_MS = 2000;
+
+export const createStreamClient = (onStatus: (status: StreamStatus) => void) => {
+  let socket: WebSocket | null = null;
+  let url = '';
+  let wanted = false; // Reconnect after drops until disconnect() is called
+  let retryTimer: number | null = null;
+
+  const retry = () => {
+    onStatus('error');
+    retryTimer = window.setTimeout(() => open(true), RECONNECT_DELAY_MS);
+  };
+
+  // Retries stay in 'error' until one succeeds rather than flipping back to 'connecting'
+  const open = (retrying = false) => {
+    retryTimer = null;
+    if (!retrying) onStatus('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch {
+      // Malformed URL (e.g. no ws://); keeps retrying until disconnect() like a refused connection
+      retry();
+      return;
+    }
+    socket = ws;
+    ws.onopen = () => onStatus('connected');
+    ws.onerror = () => onStatus('error');
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      if (wanted) {
+        retry();
+      } else {
+        onStatus('disconnected');
+      }
+    };
+  };
+
+  const connect = (target: string) => {
+    disconnect();
+    url = target;
+    wanted = true;
+    open();
+  };
+
+  const disconnect = () => {
+    wanted = false;
+    if (retryTimer !== null) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (socket) {
+      const ws = socket;
+      socket = null;
+      ws.close();
+    }
+    // Also when between retries, so the toggle can always start over
+    onStatus('disconnected');
+  };
+
+  // Drops frames while the socket is down or backed up rather than queueing stale values
+  const send = (time: number, channels: Record<string, number>) => {
+    if (!socket || socket.readyState !== WebSocket.OPEN || socket.bufferedAmount > 64 * 1024) return;
+    socket.send(JSON.stringify({ type: 'frame', time, channels }));
+  };
+
+  return { connect, disconnect, send };
+};
+
+export type StreamClient = ReturnType<typeof createStreamClient>;
@@ -0,0 +1,223 @@
+import { AnalysisConfig, RawChannelData, Section } from '../types';
+import { fft, hannWindow } from './fft';
+import { chromaBinMap } from './tonal';
+
+/**
+ * Song structure: beat-synchronous timbre + chroma features, a self-similarity
+ * matrix, Foote novelty along its diagonal for boundaries, then clustering of
+ * the sections so repeats share a letter (A, B, A', ...).
+ */
+
+const FFT_SIZE = 4096;
+const TIMBRE_BANDS = 16;
+const TIMBRE_MIN_HZ = 40;
+const TIMBRE_MAX_HZ = 16000;
+const KERNEL_BEATS = 16; // Checkerboard kernel width, two bars in 4/4 either side of a boundary
+const MIN_SECTION_BEATS = 16;
+const PEAK_THRESHOLD = 0.5; // Novelty peaks must clear mean + this many standard deviations
+const SAME_SECTION = 0.6; // Cosine similarity above which two sections count as repeats
+
+interface Block {
+  start: number; // Seconds
+  features: Float32Array;
+}
+
+/**
+ * One feature vector per beat: log energies in log-spaced bands plus chroma
+ */
+const beatFeatures = (mono: Float32Array, sampleRate: number, config: AnalysisConfig): Block[] => {
+  const beat = 60 / config.bpm;
+  const duration = mono.length / sampleRate;
+  const first = ((config.beatOffset % beat) + beat) % beat;
+  const window = hannWindow(FFT_SIZE);
+  const re = new Float32Array(FFT_SIZE);
+  const im = new Float32Array(FFT_SIZE);
+  const binHz = sampleRate / FFT_SIZE;
+  const chroma = chromaBinMap(FFT_SIZE, sampleRate);
+  const bandOf = new Int8Array(FFT_SIZE / 2).fill(-1);
+  for (let k = 1; k < bandOf.length; k++) {
+    const hz = k * binHz;
+    if (hz < TIMBRE_MIN_HZ || hz > TIMBRE_MAX_HZ) continue;
+    bandOf[k] = Math.min(TIMBRE_BANDS - 1, Math.floor((Math.log(hz / TIMBRE_MIN_HZ) / Math.log(TIMBRE_MAX_HZ / TIMBRE_MIN_HZ)) * TIMBRE_BANDS));
+  }
+
+  const blocks: Block[] = [];
+  // Leading partial beat becomes its own block so sections can start at 0
+  const starts = first > 0.05 ? [0] : [];
+  for (let t = first; t < duration - beat / 2; t += beat) starts.push(t);
+
+  starts.forEach((start, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1] : duration;
+    const features = new Float32Array(TIMBRE_BANDS + 12);
+    // Average a few spectra across the beat
+    const hops = 3;
+    for (let h = 0; h < hops; h++) {
+      const center = Math.round((start + ((h + 0.5) / hops) * (end - start)) * sampleRate);
+      for (let n = 0; n < FFT_SIZE; n++) {
+        const idx = center - FFT_SIZE / 2 + n;
+        re[n] = idx >= 0 && idx < mono.length ? mono[idx] * window[n] : 0;
+        im[n] = 0;
+      }
+      fft(re, im);
+      for (let k = 1; k < FFT_SIZE / 2; k++) {
+        const power = re[k] * re[k] + im[k] * im[k];
+        if (bandOf[k] >= 0) features[bandOf[k]] += power;
+        if (chroma[k] >= 0) features[TIMBRE_BANDS + chroma[k]] += Math.sqrt(power);
+      }
+    }
+    for (let b = 0; b < TIMBRE_BANDS; b++) features[b] = Math.log10(features[b] / hops + 1e-10);
+    let peak = 0;
+    for (let c = 0; c < 12; c++) peak = Math.max(peak, features[TIMBRE_BANDS + c]);
+    for (let c = 0; c < 12; c++) features[TIMBRE_BANDS + c] = peak > 0 ? features[TIMBRE_BANDS + c] / peak : 0;
+    blocks.push({ start, features });
+  });
+
+  // z-score every dimension, then unit length so dot products are cosines
+  const dims = TIMBRE_BANDS + 12;
+  for (let d = 0; d < dims; d++) {
+    let mean = 0;
+    blocks.forEach(b => { mean += b.features[d]; });
+    mean /= blocks.length || 1;
+    let variance = 0;
+    blocks.forEach(b => { variance += (b.features[d] - mean) ** 2; });
+    const std = Math.sqrt(variance / (blocks.length || 1)) || 1;
+    blocks.forEach(b => { b.features[d] = (b.features[d] - mean) / std; });
+  }
+  blocks.forEach(b => normalize(b.features));
+  return blocks;
+};
+
+const normalize = (v: Float32Array) => {
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm) || 1;
+  for (let i = 0; i < v.length; i++) v[i] /= norm;
+  return v;
+};
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+/**
+ * Foote novelty: a Gaussian-tapered checkerboard kernel slid along the
+ * self-similarity matrix's diagonal. High where the past and future differ.
+ */
+export const noveltyCurve = (blocks: Block[], half = KERNEL_BEATS / 2): Float32Array => {
+  const n = blocks.length;
+  const novelty = new Float32Array(n);
+  const sigma = half / 2;
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let a = -half; a < half; a++) {
+      for (let b = -half; b < half; b++) {
+        const x = i + a;
+        const y = i + b;
+        if (x < 0 || y < 0 || x >= n || y >= n) continue;
+        const sign = (a < 0) === (b < 0) ? 1 : -1;
+        const taper = Math.exp(-((a + 0.5) ** 2 + (b + 0.5) ** 2) / (2 * sigma * sigma));
+        sum += sign * taper * dot(blocks[x].features, blocks[y].features);
+      }
+    }
+    novelty[i] = Math.max(0, sum);
+  }
+  return novelty;
+};
+
+/**
+ * Boundary block indices: the strongest novelty peaks, at least
+ * MIN_SECTION_BEATS apart and clear of both ends
+ */
+const pickBoundaries = (novelty: Float32Array): number[] => {
+  const n = novelty.length;
+  let mean = 0;
+  novelty.forEach(v => { mean += v; });
+  mean /= n || 1;
+  let variance = 0;
+  novelty.forEach(v => { variance += (v - mean) ** 2; });
+  const threshold = mean + PEAK_THRESHOLD * Math.sqrt(variance / (n || 1));
+
+  const candidates: number[] = [];
+  for (let i = MIN_SECTION_BEATS; i <= n - MIN_SECTION_BEATS; i++) {
+    if (novelty[i] > threshold && novelty[i] >= novelty[i - 1] && novelty[i] >= (novelty[i + 1] ?? 0)) candidates.push(i);
+  }
+  candidates.sort((a, b) => novelty[b] - novelty[a]);
+
+  const chosen: number[] = [];
+  candidates.forEach(i => {
+    if (chosen.every(j => Math.abs(i - j) >= MIN_SECTION_BEATS)) chosen.push(i);
+  });
+  return chosen.sort((a, b) => a - b);
+};
+
+/**
+ * Letters for section groups: A..Z, then AA, AB, ...
+ */
+const groupLetter = (group: number): string =>
+  group < 26 ? String.fromCharCode(65 + group) : groupLetter(Math.floor(group / 26) - 1) + groupLetter(group % 26);
+
+/**
+ * Segments a mix into labeled sections. Repeats of a section share a group;
+ * later occurrences get primes (A, A', A'').
+ */
+export const segmentStructure = (mono: Float32Array, sampleRate: number, config: AnalysisConfig): Section[] => {
+  const duration = mono.length / sampleRate;
+  const blocks = beatFeatures(mono, sampleRate, config);
+  if (blocks.length < MIN_SECTION_BEATS * 2) return [{ start: 0, end: duration, label: 'A', group: 0 }];
+
+  const bounds = [0, ...pickBoundaries(noveltyCurve(blocks)), blocks.length];
+  const spans = bounds.slice(0, -1).map((from, i) => {
+    const to = bounds[i + 1];
+    const mean = new Float32Array(blocks[0].features.length);
+    for (let b = from; b < to; b++) blocks[b].features.forEach((v, d) => { mean[d] += v; });
+    return {
+      start: from === 0 ? 0 : blocks[from].start,
+      end: to === blocks.length ? duration : blocks[to].start,
+      mean: normalize(mean),
+    };
+  });
+
+  // Greedy clustering against each group's first occurrence
+  const groups: Float32Array[] = [];
+  const seen: number[] = [];
+  return spans.map(span => {
+    let group = -1;
+    let best = SAME_SECTION;
+    groups.forEach((ref, g) => {
+      const similarity = dot(ref, span.mean);
+      if (similarity > best) {
+        best = similarity;
+        group = g;
+      }
+    });
+    if (group === -1) group = groups.push(span.mean) - 1;
+    seen[group] = (seen[group] ?? 0) + 1;
+    return { start: span.start, end: span.end, label: groupLetter(group) + "'".repeat(seen[group] - 1), group };
+  });
+};
+
+/**
+ * Per-frame "section index" (0 for the first section, 1 for the last) and
+ * "section progress" (0-1 ramp through each section)
+ */
+export const sectionChannels = (sections: Section[], totalFrames: number, fps: number) => {
+  const index = new Float32Array(totalFrames);
+  const progress = new Float32Array(totalFrames);
+  let s = 0;
+  for (let f = 0; f < totalFrames; f++) {
+    const time = f / fps;
+    while (s < sections.length - 1 && time >= sections[s].end) s++;
+    const section = sections[s];
+    index[f] = sections.length > 1 ? s / (sections.length - 1) : 0;
+    progress[f] = Math.max(0, Math.min(1, (time - section.start) / Math.max(1e-6, section.end - section.start)));
+  }
+  return { index, progress };
+};
+
+/**
+ * The sections found for the master, if it was segmented
+ */
+export const sectionsOf = (rawChannels: RawChannelData[]): Section[] =>
+  rawChannels.find(r => r.sections)?.sections ?? [];
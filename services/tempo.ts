@@ -0,0 +1,123 @@
+import { AudioSource, mixToMono } from './dsp';
+import { spectralFlux } from './onsets';
+
+export interface TempoEstimate {
+  bpm: number;
+  beatOffset: number; // Seconds to the first downbeat
+  confidence: number; // 0-1
+}
+
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+
+/**
+ * Estimates BPM from the onset envelope autocorrelation, then locks beat phase
+ * and picks the downbeat as the bar position with the most low-end onsets.
+ */
+export const detectTempo = (buffer: AudioSource, timeSignature: number): TempoEstimate => {
+  const { full, low, rate, latency } = spectralFlux(mixToMono(buffer), buffer.sampleRate);
+  const n = full.length;
+  if (n < rate * 4) return { bpm: 120, beatOffset: 0, confidence: 0 };
+
+  // Smoothed, mean-removed envelope so fractional periods still correlate
+  const smooth = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    let weight = 0;
+    for (let k = -3; k <= 3; k++) {
+      if (i + k < 0 || i + k >= n) continue;
+      const w = Math.exp(-0.5 * (k * k) / 2.25);
+      sum += full[i + k] * w;
+      weight += w;
+    }
+    smooth[i] = sum / weight;
+  }
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += smooth[i];
+  mean /= n;
+  const env = new Float32Array(n);
+  for (let i = 0; i < n; i++) env[i] = smooth[i] - mean;
+
+  const minLag = Math.floor((60 / MAX_BPM) * rate);
+  const maxLag = Math.ceil((60 / MIN_BPM) * rate);
+  const acf = new Float32Array(maxLag * 2 + 2);
+  for (let lag = minLag; lag < acf.length; lag++) {
+    let sum = 0;
+    for (let i = lag; i < n; i++) sum += env[i] * env[i - lag];
+    acf[lag] = sum / (n - lag);
+  }
+
+  // Score each lag with its double to favour the true beat over off-beats,
+  // weighted towards the 120 BPM region
+  let bestLag = minLag;
+  let bestScore = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * rate) / lag;
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120) / 0.9, 2));
+    const score = (acf[lag] + 0.5 * acf[lag * 2]) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Parabolic interpolation for fractional tempo
+  let period = bestLag;
+  const a = acf[bestLag - 1];
+  const b = acf[bestLag];
+  const c = acf[bestLag + 1];
+  const denom = a - 2 * b + c;
+  if (bestLag > minLag && denom !== 0) {
+    period = bestLag + Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denom));
+  }
+
+  const sample = (arr: Float32Array, pos: number) => {
+    const i = Math.floor(pos);
+    if (i < 0 || i + 1 >= arr.length) return 0;
+    const t = pos - i;
+    return arr[i] * (1 - t) + arr[i + 1] * t;
+  };
+
+  // Beat phase: offset whose comb collects the most onset energy
+  const steps = Math.ceil(period);
+  let bestPhase = 0;
+  let bestPhaseScore = -Infinity;
+  for (let p = 0; p < steps; p++) {
+    let sum = 0;
+    for (let pos = p; pos < n; pos += period) sum += sample(full, pos);
+    if (sum > bestPhaseScore) {
+      bestPhaseScore = sum;
+      bestPhase = p;
+    }
+  }
+
+  // Downbeat: bar position with the strongest low-band onsets
+  const beatsPerBar = Math.max(1, timeSignature);
+  const barScores = new Float32Array(beatsPerBar);
+  for (let k = 0, pos = bestPhase; pos < n; k++, pos += period) {
+    barScores[k % beatsPerBar] += sample(low, pos);
+  }
+  let downbeatIdx = 0;
+  for (let k = 1; k < beatsPerBar; k++) {
+    if (barScores[k] > barScores[downbeatIdx]) downbeatIdx = k;
+  }
+
+  const bpm = (60 * rate) / period;
+  const beatOffset = (bestPhase + downbeatIdx * period) / rate + latency;
+
+  // Confidence: how far the winning lag stands above the average correlation
+  let acfMean = 0;
+  let acfMax = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    acfMean += Math.abs(acf[lag]);
+    acfMax = Math.max(acfMax, acf[lag]);
+  }
+  acfMean /= maxLag - minLag + 1;
+  const confidence = acfMax > 0 ? Math.max(0, Math.min(1, 1 - acfMean / acfMax)) : 0;
+
+  return {
+    bpm: Math.round(bpm * 100) / 100,
+    beatOffset: Math.round(beatOffset * 1000) / 1000,
+    confidence,
+  };
+};
@@ -0,0 +1,86 @@
+import { AnalysisConfig } from '../types';
+
+/**
+ * Frame index containing the given time
+ */
+export const frameAt = (time: number, fps: number) => Math.floor(time * fps + 1e-6);
+
+const NTSC_BASES = [24, 30, 48, 60, 120];
+
+/**
+ * Snaps typed rates like 29.97 or 23.976 to the exact NTSC ratio (n * 1000 / 1001)
+ */
+export const normalizeFps = (fps: number): number => {
+  const ntsc = NTSC_BASES.find(n => Math.abs(fps - (n * 1000) / 1001) < 0.005);
+  return ntsc ? (ntsc * 1000) / 1001 : fps;
+};
+
+/**
+ * Whether two configs cut the audio into the same frames. Raw channels hold
+ * one value per frame, so a change to any of these needs a new analysis.
+ */
+export const sameFrameTiming = (a: AnalysisConfig, b: AnalysisConfig) =>
+  a.fps === b.fps && a.windowFrames === b.windowFrames && a.windowAlignment === b.windowAlignment;
+
+/**
+ * Display form: 30, 29.97, 23.976
+ */
+export const formatFps = (fps: number): string => String(Number(fps.toFixed(3)));
+
+/**
+ * Drop-frame timecode only exists for 29.97 and 59.94
+ */
+export const supportsDropFrame = (fps: number) =>
+  Math.abs(fps - 30000 / 1001) < 1e-3 || Math.abs(fps - 60000 / 1001) < 1e-3;
+
+/**
+ * SMPTE-style HH:MM:SS:FF timecode. Drop-frame skips frame numbers 0 and 1
+ * (0-3 at 59.94) at the start of every minute except each tenth, so the
+ * label stays in step with wall-clock time; it's written HH:MM:SS;FF.
+ */
+export const formatTimecode = (time: number, fps: number, dropFrame = false): string => {
+  const nominal = Math.round(fps);
+  let frame = frameAt(Math.max(0, time), fps);
+  const drop = dropFrame && supportsDropFrame(fps);
+  if (drop) {
+    const dropped = nominal / 15; // 2 at 29.97, 4 at 59.94
+    const perTenMinutes = nominal * 600 - dropped * 9;
+    const perMinute = nominal * 60 - dropped;
+    const tens = Math.floor(frame / perTenMinutes);
+    const rest = frame % perTenMinutes;
+    frame += dropped * 9 * tens + (rest > dropped ? dropped * Math.floor((rest - dropped) / perMinute) : 0);
+  }
+  const ff = frame % nominal;
+  const totalSeconds = Math.floor(frame / nominal);
+  const ss = totalSeconds % 60;
+  const mm = Math.floor(totalSeconds / 60) % 60;
+  const hh = Math.floor(totalSeconds / 3600);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(hh)}:${pad(mm)}:${pad(ss)}${drop ? ';' : ':'}${pad(ff)}`;
+};
+
+export type StepUnit = 'frame' | 'beat' | 'bar';
+
+/**
+ * Moves to the next/previous frame, beat or bar line. Beat and bar steps
+ * snap to the grid anchored at config.beatOffset.
+ */
+export const stepTime = (time: number, unit: StepUnit, direction: 1 | -1, config: AnalysisConfig): number => {
+  if (unit === 'frame') {
+    return (frameAt(time, config.fps) + direction) / config.fps;
+  }
+  const beatLength = 60 / config.bpm;
+  const size = unit === 'bar' ? beatLength * config.timeSignature : beatLength;
+  const pos = (time - config.beatOffset) / size;
+  const eps = 1e-6;
+  const target = direction > 0 ? Math.floor(pos + eps) + 1 : Math.ceil(pos - eps) - 1;
+  return config.beatOffset + target * size;
+};
+
+/**
+ * Per-frame channel value at a time, 0 outside the data
+ */
+export const valueAtTime = (values: ArrayLike<number>, time: number, fps: number): number => {
+  const frame = frameAt(time, fps);
+  return frame >= 0 && frame < values.length ? values[frame] : 0;
+};
@@ -0,0 +1,251 @@
+import { fft, hannWindow } from './fft';
+
+/**
+ * Harmony features: a 12-bin chromagram, YIN fundamental frequency with a
+ * confidence, and a Krumhansl-Schmuckler key estimate.
+ */
+
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Pitch channel maps this range onto 0-1 on a log scale (A1 to A6, 5 octaves)
+export const PITCH_MIN_HZ = 55;
+export const PITCH_MAX_HZ = 1760;
+
+const CHROMA_FFT_SIZE = 8192;
+const CHROMA_MIN_HZ = 80;
+const CHROMA_MAX_HZ = 5000;
+
+const YIN_RATE = 11025; // Pitch tracking runs on a decimated signal
+const YIN_WINDOW = 512;
+const YIN_THRESHOLD = 0.15;
+const VOICED_CONFIDENCE = 0.5;
+const SILENCE_RMS = 1e-3;
+
+const KEY_WINDOW_SECONDS = 10;
+
+// Krumhansl-Kessler key profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export interface TonalFeatures {
+  chroma: Float32Array[]; // 12 channels, C first; each frame scaled so its strongest class is 1
+  pitch: Float32Array; // Log-mapped f0, held through unvoiced frames
+  confidence: Float32Array; // 0 when unvoiced or silent
+  key: Float32Array; // Local key's place on the circle of fifths, see keyPosition
+  keyName: string; // Whole-source estimate, e.g. "A minor"
+}
+
+export const pitchToValue = (hz: number) =>
+  Math.max(0, Math.min(1, Math.log2(hz / PITCH_MIN_HZ) / Math.log2(PITCH_MAX_HZ / PITCH_MIN_HZ)));
+
+export const valueToPitch = (value: number) =>
+  PITCH_MIN_HZ * Math.pow(PITCH_MAX_HZ / PITCH_MIN_HZ, value);
+
+/**
+ * 0-1 position on the circle of fifths, with relative major/minor keys
+ * (C major, A minor) sharing a slot so the channel can drive a hue.
+ */
+export const keyPosition = (tonic: number, minor: boolean) => {
+  const relativeMajor = minor ? (tonic + 3) % 12 : tonic;
+  return ((relativeMajor * 7) % 12) / 12;
+};
+
+const correlate = (a: number[], b: number[]) => {
+  const mean = (v: number[]) => v.reduce((s, x) => s + x, 0) / v.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  let num = 0;
+  let da = 0;
+  let db = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da && db ? num / Math.sqrt(da * db) : 0;
+};
+
+/**
+ * Best-matching key for a pitch-class profile
+ */
+export const estimateKey = (profile: number[]): { tonic: number; minor: boolean; score: number } => {
+  let best = { tonic: 0, minor: false, score: -Infinity };
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = profile.map((_, i) => profile[(i + tonic) % 12]);
+    const major = correlate(rotated, MAJOR_PROFILE);
+    const minor = correlate(rotated, MINOR_PROFILE);
+    if (major > best.score) best = { tonic, minor: false, score: major };
+    if (minor > best.score) best = { tonic, minor: true, score: minor };
+  }
+  return best;
+};
+
+export const keyName = (tonic: number, minor: boolean) => `${PITCH_CLASSES[tonic]} ${minor ? 'minor' : 'major'}`;
+
+/**
+ * Pitch class of each FFT bin (C = 0), -1 outside the range chroma reads
+ */
+export const chromaBinMap = (fftSize: number, sampleRate: number): Int8Array => {
+  const binHz = sampleRate / fftSize;
+  const map = new Int8Array(fftSize / 2).fill(-1);
+  for (let k = 1; k < map.length; k++) {
+    const hz = k * binHz;
+    if (hz < CHROMA_MIN_HZ || hz > CHROMA_MAX_HZ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+    map[k] = ((midi % 12) + 12) % 12;
+  }
+  return map;
+};
+
+/**
+ * YIN on one decimated window: returns [f0 Hz, confidence 0-1]
+ */
+const yin = (x: Float32Array, rate: number, diff: Float32Array): [number, number] => {
+  const maxTau = diff.length - 1;
+  const minTau = Math.max(2, Math.floor(rate / PITCH_MAX_HZ));
+  diff[0] = 1;
+  let running = 0;
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let d = 0;
+    for (let j = 0; j < YIN_WINDOW; j++) {
+      const delta = x[j] - x[j + tau];
+      d += delta * delta;
+    }
+    running += d;
+    // Cumulative mean normalized difference
+    diff[tau] = running > 0 ? (d * tau) / running : 1;
+  }
+
+  let tau = -1;
+  for (let t = minTau; t < maxTau; t++) {
+    if (diff[t] < YIN_THRESHOLD) {
+      while (t + 1 < maxTau && diff[t + 1] < diff[t]) t++;
+      tau = t;
+      break;
+    }
+  }
+  if (tau === -1) {
+    // No dip under the threshold: take the global minimum at low confidence
+    tau = minTau;
+    for (let t = minTau; t < maxTau; t++) if (diff[t] < diff[tau]) tau = t;
+  }
+
+  // Parabolic interpolation around the dip
+  const a = diff[tau - 1];
+  const b = diff[tau];
+  const c = tau + 1 <= maxTau ? diff[tau + 1] : b;
+  const denom = a - 2 * b + c;
+  const refined = denom > 0 ? tau + (a - c) / (2 * denom) : tau;
+  return [rate / refined, Math.max(0, Math.min(1, 1 - b))];
+};
+
+/**
+ * Computes all tonal features for one source. `frameCenter` gives the sample
+ * each video frame's analysis is centered on.
+ */
+export const analyzeTonal = (
+  mono: Float32Array,
+  sampleRate: number,
+  totalFrames: number,
+  fps: number,
+  frameCenter: (frame: number) => number,
+  onProgress?: (fraction: number) => void
+): TonalFeatures => {
+  const chroma = Array.from({ length: 12 }, () => new Float32Array(totalFrames));
+  const pitch = new Float32Array(totalFrames);
+  const confidence = new Float32Array(totalFrames);
+  const strength = new Float32Array(totalFrames); // Unnormalized chroma energy, weights the key estimate
+
+  const bins = CHROMA_FFT_SIZE / 2;
+  const binClass = chromaBinMap(CHROMA_FFT_SIZE, sampleRate);
+
+  const window = hannWindow(CHROMA_FFT_SIZE);
+  const re = new Float32Array(CHROMA_FFT_SIZE);
+  const im = new Float32Array(CHROMA_FFT_SIZE);
+
+  const decimation = Math.max(1, Math.floor(sampleRate / YIN_RATE));
+  const rate = sampleRate / decimation;
+  const maxTau = Math.ceil(rate / PITCH_MIN_HZ) + 2;
+  const segment = new Float32Array(YIN_WINDOW + maxTau + 1);
+  const diff = new Float32Array(maxTau + 1);
+
+  let held = 0;
+  const classes = new Float64Array(12);
+  for (let f = 0; f < totalFrames; f++) {
+    if (onProgress && f % 500 === 0) onProgress(f / totalFrames);
+    const center = Math.round(frameCenter(f));
+
+    // Chroma, left at 0 in near-silence where per-frame scaling would blow noise up to full scale
+    const start = center - CHROMA_FFT_SIZE / 2;
+    let chromaEnergy = 0;
+    for (let i = 0; i < CHROMA_FFT_SIZE; i++) {
+      const idx = start + i;
+      const sample = idx >= 0 && idx < mono.length ? mono[idx] : 0;
+      chromaEnergy += sample * sample;
+      re[i] = sample * window[i];
+      im[i] = 0;
+    }
+    classes.fill(0);
+    if (Math.sqrt(chromaEnergy / CHROMA_FFT_SIZE) >= SILENCE_RMS) {
+      fft(re, im);
+      for (let k = 1; k < bins; k++) {
+        const pc = binClass[k];
+        if (pc >= 0) classes[pc] += Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+      }
+    }
+    let peak = 0;
+    for (let c = 0; c < 12; c++) {
+      if (classes[c] > peak) peak = classes[c];
+      strength[f] += classes[c];
+    }
+    for (let c = 0; c < 12; c++) chroma[c][f] = peak > 0 ? classes[c] / peak : 0;
+
+    // Pitch: box-filtered decimation, window starting half a YIN window before the center
+    const segStart = center - Math.round((YIN_WINDOW / 2) * decimation);
+    let energy = 0;
+    for (let i = 0; i < segment.length; i++) {
+      let sum = 0;
+      for (let d = 0; d < decimation; d++) {
+        const idx = segStart + i * decimation + d;
+        if (idx >= 0 && idx < mono.length) sum += mono[idx];
+      }
+      segment[i] = sum / decimation;
+      if (i < YIN_WINDOW) energy += segment[i] * segment[i];
+    }
+
+    if (Math.sqrt(energy / YIN_WINDOW) < SILENCE_RMS) {
+      pitch[f] = held;
+      continue;
+    }
+    const [hz, conf] = yin(segment, rate, diff);
+    confidence[f] = conf;
+    if (conf >= VOICED_CONFIDENCE) held = pitchToValue(hz);
+    pitch[f] = held;
+  }
+
+  // Global key from the energy-weighted average chroma
+  const profile = new Array(12).fill(0);
+  for (let f = 0; f < totalFrames; f++) {
+    for (let c = 0; c < 12; c++) profile[c] += chroma[c][f] * strength[f];
+  }
+  const global = estimateKey(profile);
+
+  // Local key over a sliding window, from running sums of weighted chroma
+  const sums = Array.from({ length: 12 }, () => new Float64Array(totalFrames + 1));
+  for (let f = 0; f < totalFrames; f++) {
+    for (let c = 0; c < 12; c++) sums[c][f + 1] = sums[c][f] + chroma[c][f] * strength[f];
+  }
+  const radius = Math.max(1, Math.round((KEY_WINDOW_SECONDS * fps) / 2));
+  const key = new Float32Array(totalFrames);
+  const local = new Array(12).fill(0);
+  for (let f = 0; f < totalFrames; f++) {
+    const from = Math.max(0, f - radius);
+    const to = Math.min(totalFrames, f + radius + 1);
+    for (let c = 0; c < 12; c++) local[c] = sums[c][to] - sums[c][from];
+    const est = local.some(v => v > 0) ? estimateKey(local) : global;
+    key[f] = keyPosition(est.tonic, est.minor);
+  }
+
+  onProgress?.(1);
+  return { chroma, pitch, confidence, key, keyName: keyName(global.tonic, global.minor) };
+};
@@ -0,0 +1,189 @@
+import { AnalysisConfig, AutomationSegment, FrequencyBand, NormalizationSettings, RawChannelData, RefinementChain, SeparationMode } from '../types';
+
+export interface RefineJob {
+  id: string;
+  raw: Float32Array;
+  chain: RefinementChain;
+  automation: AutomationSegment[];
+}
+
+export type WorkerTask =
+  | {
+      kind: 'analyze';
+      channels: Float32Array[];
+      sampleRate: number;
+      config: AnalysisConfig;
+      sourceId: string;
+      sourceName: string;
+      bands: FrequencyBand[];
+      normalization: NormalizationSettings;
+      tonal: boolean;
+      separation: SeparationMode;
+    }
+  | {
+      kind: 'refine';
+      jobs: RefineJob[]; // In dependency order: later jobs may read earlier results
+      inputs: Record<string, Float32Array>; // Processed values of sidechain keys outside the batch
+      bpm: number;
+      fps: number;
+      beatOffset: number;
+    };
+
+export type WorkerResult = {
+  analyze: RawChannelData[];
+  refine: Record<string, Float32Array>;
+};
+
+export type WorkerRequest = { taskId: number; task: WorkerTask };
+
+export type WorkerResponse =
+  | { taskId: number; type: 'progress'; stage: string; fraction: number }
+  | { taskId: number; type: 'result'; result: WorkerResult[WorkerTask['kind']] }
+  | { taskId: number; type: 'error'; message: string };
+
+interface PendingTask {
+  taskId: number;
+  request: WorkerRequest;
+  transfer: Transferable[];
+  onProgress?: (stage: string, fraction: number) => void;
+  resolve: (value: WorkerResult[WorkerTask['kind']]) => void;
+  reject: (reason: unknown) => void;
+}
+
+const spawnWorker = () => new Worker(new URL('./dsp.worker.ts', import.meta.url), { type: 'module' });
+
+// Errors from workers that never posted a message before the pool gives up;
+// they mean the script itself doesn't load, so respawning can't help
+const MAX_STARTUP_FAILURES = 3;
+
+/**
+ * Fixed-size pool of DSP workers. Tasks queue until a worker is idle;
+ * aborting a running task terminates and replaces its worker. Workers that
+ * keep failing before they ever respond shut the pool down.
+ */
+export const createWorkerPool = (size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))) => {
+  const workers: Worker[] = [];
+  const busy = new Map<Worker, PendingTask>();
+  const queue: PendingTask[] = [];
+  const started = new WeakSet<Worker>();
+  let startupFailures = 0;
+  let broken: Error | null = null;
+  let nextTaskId = 1;
+
+  const dispatch = () => {
+    for (const worker of workers) {
+      if (queue.length === 0) return;
+      if (busy.has(worker)) continue;
+      const pending = queue.shift()!;
+      busy.set(worker, pending);
+      worker.postMessage(pending.request, pending.transfer);
+    }
+  };
+
+  const attach = (worker: Worker) => {
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      started.add(worker);
+      startupFailures = 0;
+      const pending = busy.get(worker);
+      const msg = e.data;
+      if (!pending || pending.taskId !== msg.taskId) return;
+      if (msg.type === 'progress') {
+        pending.onProgress?.(msg.stage, msg.fraction);
+        return;
+      }
+      busy.delete(worker);
+      if (msg.type === 'result') pending.resolve(msg.result);
+      else pending.reject(new Error(msg.message));
+      dispatch();
+    };
+    worker.onerror = (e) => {
+      const pending = busy.get(worker);
+      busy.delete(worker);
+      pending?.reject(new Error(e.message));
+      if (!started.has(worker) && ++startupFailures >= MAX_STARTUP_FAILURES) {
+        shutDown(new Error(`DSP worker failed to start: ${e.message || 'unknown error'}`));
+        return;
+      }
+      replace(worker);
+    };
+  };
+
+  const shutDown = (reason: Error) => {
+    broken = reason;
+    workers.forEach(w => w.terminate());
+    busy.forEach(p => p.reject(reason));
+    busy.clear();
+    queue.splice(0).forEach(p => p.reject(reason));
+  };
+
+  const replace = (worker: Worker) => {
+    worker.terminate();
+    if (broken) return;
+    const fresh = spawnWorker();
+    attach(fresh);
+    workers[workers.indexOf(worker)] = fresh;
+    dispatch();
+  };
+
+  for (let i = 0; i < size; i++) {
+    const worker = spawnWorker();
+    attach(worker);
+    workers.push(worker);
+  }
+
+  const run = <K extends WorkerTask['kind']>(
+    task: Extract<WorkerTask, { kind: K }>,
+    options: {
+      transfer?: Transferable[];
+      onProgress?: (stage: string, fraction: number) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<WorkerResult[K]> => new Promise((resolve, reject) => {
+    const { transfer = [], onProgress, signal } = options;
+    if (broken) {
+      reject(broken);
+      return;
+    }
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const taskId = nextTaskId++;
+    const pending: PendingTask = {
+      taskId,
+      request: { taskId, task },
+      transfer,
+      onProgress,
+      // The worker answers with the result kind of the task it was sent
+      resolve: value => resolve(value as WorkerResult[K]),
+      reject,
+    };
+
+    signal?.addEventListener('abort', () => {
+      const queued = queue.indexOf(pending);
+      if (queued !== -1) queue.splice(queued, 1);
+      for (const [worker, p] of busy) {
+        if (p === pending) {
+          busy.delete(worker);
+          replace(worker);
+        }
+      }
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+
+    queue.push(pending);
+    dispatch();
+  });
+
+  const terminate = () => {
+    workers.forEach(w => w.terminate());
+    busy.forEach(p => p.reject(new DOMException('Aborted', 'AbortError')));
+    busy.clear();
+    queue.length = 0;
+  };
+
+  return { run, terminate };
+};
+
+export type WorkerPool = ReturnType<typeof createWorkerPool>;
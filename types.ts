@@ -1,29 +1,107 @@
 
 export interface AudioFile {
   id: string;
-  file: File;
+  file?: File; // Missing for files restored from a project
   name: string;
   type: 'master' | 'stem';
   duration: number;
   sampleRate: number;
   channels: number;
   buffer?: AudioBuffer;
+  bands: FrequencyBand[]; // FFT bands analyzed for this source
+  normalization: NormalizationSettings; // How this source's level channels map to 0-1
+  tonal: boolean; // Analyze chroma, pitch and key for this source
+  separation: SeparationMode; // Also analyze harmonic/percussive parts as if they were stems
 }
 
+export interface Section {
+  start: number; // Seconds
+  end: number;
+  label: string; // A, B, A', ...
+  group: number; // Sections with the same letter share a group
+}
+
+export type SeparationMode = 'off' | 'harmonicPercussive' | 'withResidual';
+
+export type NormalizationStrategy = 'fixed' | 'peak' | 'percentile' | 'loudness' | 'rolling';
+
+export interface NormalizationSettings {
+  strategy: NormalizationStrategy;
+  percentile: number; // 'percentile': this percentile reads as 1
+  windowSeconds: number; // 'rolling': reference window length
+}
+
+export type BandScale = 'linear' | 'log' | 'mel';
+
+export interface FrequencyBand {
+  id: string;
+  name: string;
+  lowHz: number;
+  highHz: number;
+}
+
+export type WindowAlignment = 'start' | 'centered';
+
 export interface AnalysisConfig {
-  fps: number;
+  fps: number; // May be fractional, e.g. 30000 / 1001 for 29.97
+  dropFrame: boolean; // SMPTE drop-frame timecode, only valid at 29.97 / 59.94
+  windowAlignment: WindowAlignment; // 'start': a frame's window begins at its time; 'centered': it straddles it
+  windowFrames: number; // Analysis window length in frames; above 1 neighbouring windows overlap
   bpm: number;
+  beatOffset: number; // Seconds from t=0 to the first downbeat
   timeSignature: number; // e.g. 4 for 4/4
 }
 
 export interface RawChannelData {
   id: string;
   name: string;
-  sourceId: string; // 'master' or stem ID
+  sourceId: string; // 'master' or stem ID, plus ':harmonic' etc. for separated parts (see services/separation)
   values: Float32Array; // 0-1 values
-  type: 'energy' | 'frequency' | 'rhythmic' | 'phase' | 'creative';
+  type: 'energy' | 'frequency' | 'rhythmic' | 'phase' | 'creative' | 'tonal' | 'structure' | 'derived';
+  events?: number[]; // Discrete event timestamps in seconds (e.g. onsets)
+  measurements?: Float32Array; // Un-normalized levels that values were derived from, see services/normalization
+  fixedGain?: number; // Legacy scale of the feature, for the 'fixed' strategy
+  estimate?: string; // Whole-source result shown alongside the channel, e.g. the key "A minor"
+  sections?: Section[]; // Song structure, on the master's section index channel
+  expression?: string; // Formula of a 'derived' channel, see services/expression
 }
 
+export type ProcessorType =
+  | 'gate'
+  | 'gainOffset'
+  | 'smooth'
+  | 'clip'
+  | 'invert'
+  | 'compressor'
+  | 'hysteresisGate'
+  | 'envelope'
+  | 'quantize'
+  | 'peakHold'
+  | 'sampleHold'
+  | 'swing'
+  | 'retrigger'
+  | 'sidechain'
+  | 'curve';
+
+export type ProcessorParams = Record<string, number | boolean | string | number[]>;
+
+export interface Processor {
+  id: string;
+  type: ProcessorType;
+  bypass: boolean;
+  params: ProcessorParams;
+}
+
+// Ordered processors applied to a raw channel, first to last
+export type RefinementChain = Processor[];
+
+export interface LoopRegion {
+  start: number; // Seconds
+  end: number;
+  enabled: boolean;
+}
+
+// Flat settings from before refinement chains; migrated with migrateSettings
 export interface RefinementSettings {
   gain: number; // 0 to 5
   offset: number; // -1 to 1
@@ -33,18 +111,38 @@ export interface RefinementSettings {
   invert: boolean;
 }
 
+export type AutomationBlend = 'replace' | 'add' | 'multiply' | 'min' | 'max';
+
+// Hand-drawn override over part of a channel, applied after the chain
+export interface AutomationSegment {
+  id: string;
+  blend: AutomationBlend;
+  points: number[]; // Flat [t0, v0, t1, v1, ...], times in seconds, ascending
+}
+
 export interface ChannelState {
   id: string;
-  settings: RefinementSettings;
+  settings: RefinementChain;
   processedValues: Float32Array; // Cached processed result
   visible: boolean; // Main visibility toggle (like an eye)
   mute: boolean;
   solo: boolean;
   color: string;
+  label: string; // Display / export name, defaults to the id
+  outputMin: number; // Exported value at signal 0
+  outputMax: number; // Exported value at signal 1
+  automation: AutomationSegment[];
 }
 
+// What a project keeps of an AudioFile: everything but the audio itself
+export type AudioFileMeta = Omit<AudioFile, 'file' | 'buffer'>;
+
 export interface ProjectData {
+  version: number;
+  savedAt: string; // ISO timestamp
   config: AnalysisConfig;
+  files: AudioFileMeta[];
   rawChannels: RawChannelData[];
-  channelStates: Record<string, ChannelState>;
+  channelStates: ChannelState[];
+  selectedChannelId: string | null;
 }